@@ -0,0 +1,137 @@
+export type BodyLimits = {
+  /** Largest JSON, urlencoded, text or binary body in bytes. Defaults to 1 MiB. */
+  maxBytes?: number;
+  /** Largest multipart body in bytes, all files included. Defaults to 25 MiB. */
+  maxMultipartBytes?: number;
+  /** Largest single uploaded file in bytes. Defaults to 10 MiB. */
+  maxFileBytes?: number;
+};
+
+const DEFAULT_MAX_BYTES = 1024 * 1024;
+const DEFAULT_MAX_MULTIPART_BYTES = 25 * 1024 * 1024;
+const DEFAULT_MAX_FILE_BYTES = 10 * 1024 * 1024;
+
+/** Thrown while reading a request body, carries the status to answer with. */
+export class BodyParseError extends Error {
+  constructor(message: string, public status: 400 | 413) {
+    super(message);
+    this.name = "BodyParseError";
+  }
+}
+
+export type ParsedBody = {
+  /**
+   * What the body decoded to: an object for JSON, urlencoded and multipart
+   * (files included, as File values), a string for text, bytes otherwise.
+   */
+  body: any;
+  /** The body as an object, `{}` when it is not JSON or a form. */
+  json: Record<string, any>;
+  /** Uploaded files by field name. */
+  files: Record<string, File[]>;
+};
+
+/** Collects form entries into an object, repeated fields become arrays. */
+function appendField(target: Record<string, any>, name: string, value: unknown) {
+  if (!(name in target)) target[name] = value;
+  else if (Array.isArray(target[name])) target[name].push(value);
+  else target[name] = [target[name], value];
+}
+
+/** Reads the body into memory, giving up as soon as it grows past `limit`. */
+async function readLimited(req: Request, limit: number): Promise<Uint8Array<ArrayBuffer>> {
+  const declared = Number(req.headers.get("content-length"));
+  if (declared > limit) throw new BodyParseError(`Request body exceeds ${limit} bytes`, 413);
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = req.body!.getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > limit) {
+      await reader.cancel();
+      throw new BodyParseError(`Request body exceeds ${limit} bytes`, 413);
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes;
+}
+
+/**
+ * Parses the request body according to its Content-Type. Bodies over the
+ * configured limits fail with a 413, malformed JSON or forms with a 400.
+ */
+export async function parseRequestBody(req: Request, limits: BodyLimits = {}): Promise<ParsedBody> {
+  const empty: ParsedBody = { body: undefined, json: {}, files: {} };
+  if (!req.body || req.method === "GET" || req.method === "HEAD") return empty;
+
+  const header = req.headers.get("content-type") ?? "";
+  // Only for matching, the multipart boundary is case-sensitive and goes to formData() as sent.
+  const contentType = header.toLowerCase();
+  const isMultipart = contentType.startsWith("multipart/form-data");
+  const bytes = await readLimited(
+    req,
+    isMultipart ? limits.maxMultipartBytes ?? DEFAULT_MAX_MULTIPART_BYTES : limits.maxBytes ?? DEFAULT_MAX_BYTES
+  );
+  if (bytes.byteLength === 0) return empty;
+
+  if (isMultipart) {
+    const maxFileBytes = limits.maxFileBytes ?? DEFAULT_MAX_FILE_BYTES;
+    let form: FormData;
+    try {
+      form = await new Response(bytes, { headers: { "Content-Type": header } }).formData();
+    } catch {
+      throw new BodyParseError("Malformed multipart body", 400);
+    }
+    const fields: Record<string, any> = {};
+    const files: Record<string, File[]> = {};
+    form.forEach((value, name) => {
+      if (typeof value !== "string") {
+        if (value.size > maxFileBytes) {
+          throw new BodyParseError(`File "${value.name}" in field "${name}" exceeds ${maxFileBytes} bytes`, 413);
+        }
+        (files[name] ??= []).push(value);
+      }
+      appendField(fields, name, value);
+    });
+    return { body: fields, json: fields, files };
+  }
+
+  const text = () => new TextDecoder().decode(bytes);
+
+  if (contentType.startsWith("application/json") || /^application\/[^;]+\+json/.test(contentType)) {
+    try {
+      const body = JSON.parse(text());
+      return { body, json: body !== null && typeof body === "object" ? body : {}, files: {} };
+    } catch {
+      throw new BodyParseError("Malformed JSON body", 400);
+    }
+  }
+
+  if (contentType.startsWith("application/x-www-form-urlencoded")) {
+    const fields: Record<string, any> = {};
+    for (const [name, value] of new URLSearchParams(text())) appendField(fields, name, value);
+    return { body: fields, json: fields, files: {} };
+  }
+
+  // fetch() sends a string body as text/plain, clients that relied on it being read as JSON keep working.
+  if (!contentType || contentType.startsWith("text/plain")) {
+    try {
+      const body = JSON.parse(text());
+      if (body !== null && typeof body === "object") return { body, json: body, files: {} };
+    } catch {}
+  }
+
+  if (contentType.startsWith("text/")) return { body: text(), json: {}, files: {} };
+
+  return { body: bytes, json: {}, files: {} };
+}
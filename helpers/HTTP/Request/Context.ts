@@ -1,9 +1,9 @@
-import { config } from "../../../src/core/config";
-const corsHeaders = {
-  "Access-Control-Allow-Origin": config.origin,
-  "Access-Control-Allow-Methods": "OPTIONS, GET, POST, PUT, PATCH, DELETE",
-  "Access-Control-Allow-Headers": "Content-Type, Authorization",
-};
+import type { ServerWebSocket } from "bun";
+import { tenantTopic, topics } from "../../../src/core/Topics";
+import { createSseResponse, type SseStream } from "../Response/SSE";
+import type { RouteInput } from "../../../src/core/Routes";
+import type { CloverClient, CloverError } from "../../../src/core/Clover";
+import { logger, type Logger } from "../../../src/core/Logger";
 
 /**
  * A discriminated union to safely represent the authenticated actor.
@@ -14,6 +14,12 @@ export type AuthenticatedPrincipal = {
   isAuthenticated: true;
   id: string; // The unique ID of the actor from Clover
   token: string; // The auth token used for this context
+  /** Only set right after login or refresh, trade it for a new pair at /auth/refresh. */
+  refreshToken?: string;
+  /** When `token` stops being accepted. */
+  expiresAt?: Date;
+  /** The login session the token belongs to, logout revokes all of its tokens. */
+  sessionId?: string;
   Roles: string[];
   username: string,
   avatar: string,
@@ -33,63 +39,17 @@ export type AuthenticatedPrincipal = {
 
 export type UnauthenticatedPrincipal = {
   isAuthenticated: false;
+  /** Set when a Clover flow failed, says why. */
+  error?: CloverError;
 };
 
 export type Principal = AuthenticatedPrincipal | UnauthenticatedPrincipal;
 
 // ---
 
-type PasswordAuthOptions = {
-    type: 'passwordAuth';
-    emailOrUsername: string;
-    password: string;
-};
-
-type MfaAuthOptions = {
-    type: 'mfa';
-    userId: string; // MFA usually follows a login, so you'd have a user ID
-    mfaCode: string;
-};
-
-type OAuthAuthOptions = {
-  type: 'oauth';
-  code: string;
-  redirectUri: string | null;
-  authenticated_id: string;
-  accessToken?: string; // token received from Clover OAuth flow
-};
-
-
-type OtpAuthOptions = {
-    type: 'otp';
-    email: string;
-    otpCode: string;
-};
-
-// Create a union of all possible authentication methods
-type AuthOptions = PasswordAuthOptions | MfaAuthOptions | OtpAuthOptions | OAuthAuthOptions;
-
-// Define the final function type
-// (Assuming it returns a Promise with the Principal type from our previous discussions)
-type AuthenticateFn = (options: AuthOptions) => Promise<Principal>;
-type RegisterFn = (data: any ) => Promise<boolean>
-type TokenOptions = {
-  payload: {
-     id: string, 
-  },
-  iat: number
-} 
-type VerifyFn = (token: string) => Promise<Principal>;
- 
 export type ServiceConfigs = {
-  Clover: {
-    Tenant_ID: string;
-    Roles?: { name: string; security_level: number }[];
-    Authorized_Users: string[];
-    Authenticate: AuthenticateFn; 
-    Register: RegisterFn;
-    Verify?: VerifyFn;            // just verify token
-  };
+  /** Bound to the request, see CloverClient.forRequest. */
+  Clover: CloverClient;
 };
 
 // ---
@@ -115,7 +75,7 @@ export type RequestMetadata = {
 /**
  * The main application context, redesigned for clarity.
  */
-interface IContext {
+interface IContext<State extends Record<string, any> = Record<string, any>, Input extends RouteInput<any> = RouteInput> {
   /**
    * The authenticated user or system actor for this request,
    * populated by the Clover authentication backend.
@@ -143,16 +103,75 @@ interface IContext {
    * @prop json 
    */
   metadata: RequestMetadata;
+
+  /**
+   * Per-request values middleware hands down to the handler, e.g. a loaded user.
+   * Type it through the generic: `Context<{ user: User }>`.
+   */
+  state: State;
+
+  /**
+   * The request input after schema validation, with defaults, coercions and transforms applied.
+   * Locations without a schema hold the raw values. Typed when the route uses `defineRoute`.
+   */
+  input: Input;
+
+  /**
+   * Files uploaded with a multipart body, by field name. They are also part of
+   * `input.body`, so schemas can check them with `z.file()` and they can be passed
+   * straight to `DatabaseService.create/update`.
+   */
+  files: Record<string, File[]>;
+
+  /**
+   * Logger bound to this request, every line carries its `requestId` and `tenantId`.
+   */
+  log: Logger;
   json: (value: any, status?: number, statusText?:string) => Response
   html: (value: string, status?: number, statusText?:string) => Response
   text: (value: string, status?: number, statusText?:string) => Response
+  sse: (setup: (stream: SseStream) => void | Promise<void>) => Response
+  publish: (topic: string, data: any) => void
 }
+
+// ---
+
+/**
+ * Attached to every WebSocket a route accepts, filled in at upgrade time.
+ */
+export type WebSocketData = {
+  ctx: Context;
+  principal: Principal;
+  /** The route name the socket was opened on, e.g. /feed/[id] */
+  route: string;
+};
+
+export type RouteWebSocket = ServerWebSocket<WebSocketData>;
+
+/**
+ * Exported as `websocket` from a route module to accept WebSocket upgrades on that route.
+ * Call `ws.subscribe(topic)` to receive publishes for a topic of the socket's tenant.
+ */
+export type RouteWebSocketHandler = {
+  open?: (ws: RouteWebSocket) => void | Promise<void>;
+  message?: (ws: RouteWebSocket, message: string | Buffer) => void | Promise<void>;
+  close?: (ws: RouteWebSocket, code: number, reason: string) => void | Promise<void>;
+};
+
+export type { SseStream };
  
-export default class Context implements IContext {
+export default class Context<
+  State extends Record<string, any> = Record<string, any>,
+  Input extends RouteInput<any> = RouteInput,
+> implements IContext<State, Input> {
   public principal: Principal;
   public services: ServiceConfigs;
   public tenantId?: string;
   public metadata: RequestMetadata;
+  public state: State;
+  public input: Input;
+  public files: Record<string, File[]>;
+  public log: Logger;
 
   constructor() {
     // Initialize with default/empty values
@@ -161,11 +180,16 @@ export default class Context implements IContext {
     this.metadata = {
       requestID: '',
       timestamp: new Date(),
+      body: {},
       json: {},
       headers: {},
       query: {},
       params: {}
     };
+    this.state = {} as State;
+    this.input = { body: {}, query: {}, headers: {}, params: {} } as Input;
+    this.files = {};
+    this.log = logger;
   }
 
   /**
@@ -175,8 +199,7 @@ export default class Context implements IContext {
     return Response.json(value, {
       status,
       headers: {
-        "Content-Type": "application/json", 
-        ...corsHeaders
+        "Content-Type": "application/json",
       }
     });
   }
@@ -188,8 +211,7 @@ export default class Context implements IContext {
     return new Response(value, {
       status,
       headers: {
-        "Content-Type": "text/html", 
-        ...corsHeaders
+        "Content-Type": "text/html",
       }
     });
   }
@@ -202,8 +224,21 @@ export default class Context implements IContext {
       status,
       headers: {
         "Content-Type": "text/plain",
-        ...corsHeaders
       }
     });
   }
+
+  /**
+   * Helper method to open a Server-Sent Events stream, the connection stays open until either side closes it.
+   */
+  sse(setup: (stream: SseStream) => void | Promise<void>): Response {
+    return createSseResponse(setup, {}, this.tenantId ? tenantTopic(this.tenantId) : "");
+  }
+
+  /**
+   * Pushes data to every SSE stream and WebSocket of this tenant subscribed to the topic.
+   */
+  publish(topic: string, data: any): void {
+    topics.publish(this.tenantId ? tenantTopic(this.tenantId, topic) : topic, data, topic);
+  }
 }
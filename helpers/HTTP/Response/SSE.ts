@@ -0,0 +1,102 @@
+import { topics } from "../../../src/core/Topics";
+import { logger } from "../../../src/core/Logger";
+
+const log = logger.child({ component: "SSE" });
+
+const KEEP_ALIVE_MS = 15_000;
+
+/**
+ * A live Server-Sent Events connection handed to `ctx.sse()` handlers.
+ */
+export type SseStream = {
+  /** Sends one event, objects are JSON encoded. */
+  send: (data: any, event?: string, id?: string) => void;
+  /** Forwards every publish on `topic` to this client as an event named after the topic. */
+  subscribe: (topic: string) => void;
+  /** Runs once the client disconnects or the stream is closed. */
+  onClose: (callback: () => void) => void;
+  close: () => void;
+};
+
+/**
+ * Builds a streaming `text/event-stream` response. `setup` runs once the
+ * stream is open, the connection then stays open until either side closes it.
+ * `topicPrefix` is put in front of every topic the stream subscribes to.
+ */
+export function createSseResponse(
+  setup: (stream: SseStream) => void | Promise<void>,
+  headers: Record<string, string> = {},
+  topicPrefix = ""
+): Response {
+  const encoder = new TextEncoder();
+  const closeCallbacks: Array<() => void> = [];
+  let closed = false;
+  let keepAlive: Timer | undefined;
+
+  const cleanup = () => {
+    if (closed) return;
+    closed = true;
+    if (keepAlive) clearInterval(keepAlive);
+    for (const callback of closeCallbacks.splice(0)) {
+      try {
+        callback();
+      } catch (error) {
+        log.error("close callback failed", { error });
+      }
+    }
+  };
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const write = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk));
+      };
+
+      const stream: SseStream = {
+        send(data, event, id) {
+          let chunk = "";
+          if (id) chunk += `id: ${id}\n`;
+          if (event) chunk += `event: ${event}\n`;
+          const text = typeof data === "string" ? data : JSON.stringify(data);
+          for (const line of text.split("\n")) chunk += `data: ${line}\n`;
+          write(chunk + "\n");
+        },
+        subscribe(topic) {
+          closeCallbacks.push(topics.subscribe(topicPrefix + topic, (message) => stream.send(message.data, topic)));
+        },
+        onClose(callback) {
+          closeCallbacks.push(callback);
+        },
+        close() {
+          if (closed) return;
+          cleanup();
+          controller.close();
+        },
+      };
+
+      // Comments keep proxies from timing the connection out.
+      keepAlive = setInterval(() => write(": keep-alive\n\n"), KEEP_ALIVE_MS);
+      write(": connected\n\n");
+
+      try {
+        await setup(stream);
+      } catch (error) {
+        log.error("setup failed", { error });
+        stream.close();
+      }
+    },
+    cancel() {
+      // The client went away.
+      cleanup();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      ...headers,
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,8 @@
+// What route, schema and middleware files import from "hapta". Nothing here starts the server, index.ts does.
+export { default, default as Context } from "./helpers/HTTP/Request/Context";
+export type { Principal, RouteWebSocket, RouteWebSocketHandler, WebSocketData } from "./helpers/HTTP/Request/Context";
+export type { Database } from "./helpers/HTTP/Methods";
+export { DatabaseService, recordTag, listTag } from "./src/core/CrudManager";
+export { defineMiddleware, type Middleware } from "./src/core/Middleware";
+export { defineRoute, type RouteAccess, type RouteSchema } from "./src/core/Routes";
+export { refreshRoute, logoutRoute } from "./src/core/Clover/routes";
@@ -0,0 +1,59 @@
+import type { Principal } from "../../helpers/HTTP/Request/Context";
+import type { RouteAccess } from "./Routes";
+
+export type AccessDeniedBody = {
+  success: false;
+  error: {
+    code: "unauthenticated" | "forbidden";
+    message: string;
+    /** Why the token was not accepted, e.g. "token_expired", when there was one. */
+    reason?: string;
+  };
+};
+
+function deny(status: 401 | 403, error: AccessDeniedBody["error"]): Response {
+  const body: AccessDeniedBody = { success: false, error };
+  return Response.json(body, {
+    status,
+    ...(status === 401 && { headers: { "WWW-Authenticate": 'Bearer realm="hapta"' } }),
+  });
+}
+
+/**
+ * Checks a route's access policy against the request's principal. Answers the
+ * 401/403 response to send back, or undefined when the request may go on.
+ */
+export function enforceAccess(
+  access: RouteAccess | undefined,
+  principal: Principal,
+  params: Record<string, string>
+): Response | undefined {
+  if (!access || access.auth === false) return undefined;
+
+  if (!principal.isAuthenticated) {
+    return deny(401, {
+      code: "unauthenticated",
+      message: "Authentication required",
+      ...(principal.error && { reason: principal.error.code }),
+    });
+  }
+
+  const roles = principal.Roles ?? [];
+  if (access.roles?.length && !access.roles.some((role) => roles.includes(role))) {
+    return deny(403, { code: "forbidden", message: `Requires one of the roles: ${access.roles.join(", ")}` });
+  }
+
+  if (access.clearance !== undefined && (principal.highest_clearance ?? 0) < access.clearance) {
+    return deny(403, { code: "forbidden", message: `Requires clearance ${access.clearance} or higher` });
+  }
+
+  if (access.owner) {
+    const { param, bypassRoles = [] } = typeof access.owner === "string" ? { param: access.owner } : access.owner;
+    const isOwner = params[param] !== undefined && params[param] === principal.id;
+    if (!isOwner && !bypassRoles.some((role) => roles.includes(role))) {
+      return deny(403, { code: "forbidden", message: "Only the owner may access this resource" });
+    }
+  }
+
+  return undefined;
+}
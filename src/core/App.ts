@@ -0,0 +1,488 @@
+import Context, { type Principal, type RouteWebSocket, type RouteWebSocketHandler, type WebSocketData } from "../../helpers/HTTP/Request/Context";
+import { createSseResponse } from "../../helpers/HTTP/Response/SSE";
+import { BodyParseError, parseRequestBody, type BodyLimits } from "../../helpers/HTTP/Request/Body";
+import { withHeaders } from "../../helpers/HTTP/Response/Headers";
+import { FileSystemRouter, type Server } from "bun";
+import Pocketbase from "pocketbase";
+import path from "path";
+import crypto from "crypto";
+import type { AppConfig } from "./config";
+import { DatabaseService } from "./CrudManager";
+import Cache from "./CacheManager";
+import { createCacheStore, createStateStore, type CacheStore } from "./CacheStore";
+import { tenantTopic, topics } from "./Topics";
+import { enforceAccess } from "./Access";
+import { isIpKeyed, RateLimiter, rateLimitedResponse, tighter, toRules, withRateLimitHeaders, type RateLimitResult } from "./RateLimit";
+import { MIDDLEWARE_FILE, middlewareChainPaths, runMiddleware, type Middleware } from "./Middleware";
+import { buildOpenApiDocument, DEFAULT_OPENAPI_PATH, renderDocsPage } from "./OpenAPI";
+import { allowedMethods, defineRouteFromModules, hasHttpHandlers, resolveAccess, resolveHandler, resolveRateLimits, resolveSchema, validateInput, validationErrorBody, type RouteDefinition } from "./Routes";
+import { startCacheSync } from "./CacheSync";
+import { CloverError, PocketBaseTokenStore, StateTokenStore, TokenService, type CloverClientOptions, type CloverTokenClaims } from "./Clover";
+import { logger, type Logger } from "./Logger";
+import { applyCors, isPreflight, preflightResponse, resolveCors, type CorsPolicy } from "./Cors";
+import { collectCacheStats, DEFAULT_METRICS_PATH, httpRequestDuration, httpRequestsTotal, metricsResponse } from "./Metrics";
+import { TenantRegistry, TenantResolutionError, type Tenant } from "./Tenants";
+
+export type AppOptions = {
+  /** Already signed in as superuser when it needs to be, the server connects it to `DatabaseUrl`. */
+  pb: Pocketbase;
+  /** Holds routes/, schemas/ and middleware.ts, defaults to the working directory. */
+  root?: string;
+  /** Used for every call to Clover, e.g. FakeClover's `fetch` in tests. */
+  cloverFetch?: CloverClientOptions["fetch"];
+};
+
+export type App = Awaited<ReturnType<typeof createApp>>;
+
+/**
+ * Wires the cache, database, tokens and tenants from `config`, then builds the
+ * Bun.serve options from the route files. The server and createTestApp() both
+ * start here; `createServeConfig()` is called again on every hot reload.
+ */
+export async function createApp(config: AppConfig, options: AppOptions) {
+  const { pb } = options;
+  const root = options.root ?? process.cwd();
+  const routesDir = path.join(root, "routes");
+  // MODIFIED: Make the router a single, persistent instance
+  const router = new FileSystemRouter({
+    style: "nextjs",
+    dir: routesDir,
+  });
+
+  const cache = createCacheStore({ ...config.cache, nodeId: config.NodeId });
+  if (config.cacheSync) {
+    if (cache instanceof Cache) {
+      await startCacheSync(cache, config.cacheSync);
+      logger.info("Cache sync started", { transport: config.cacheSync.transport, nodeId: cache.nodeId });
+    } else {
+      logger.warn(`cacheSync only applies to the memory cache store, ignoring it for "${config.cache?.store}"`);
+    }
+  }
+  if (cache instanceof Cache) collectCacheStats(() => cache.stats());
+
+  // Hapta's own state sits next to the cache but is never evicted, synced or flushed with it.
+  const state = createStateStore(config.cache);
+
+  // Token state lives in the state store unless PocketBase is asked for, so revocations reach every node that shares it.
+  const tokens = new TokenService<CloverTokenClaims>(
+    config.auth ?? {},
+    String(config.JWT_SECRET),
+    config.auth?.store === "pocketbase" ? new PocketBaseTokenStore(pb, config.auth.collection) : new StateTokenStore(state)
+  );
+
+  // Shared across requests, handlers get their own scope via db.beginScope().
+  const db = new DatabaseService(pb, cache, {
+    staleWhileRevalidate: config.cache?.staleWhileRevalidate,
+    topics,
+    topicPrefix: tenantTopic(config.Clover_Tenant_ID),
+  });
+  if (config.realtime?.collections?.length) {
+    db.subscribeToRealtime(config.realtime.collections);
+    logger.info("Listening to realtime changes", { collections: config.realtime.collections });
+  }
+
+  // Requests pick their tenant with the `tenantid` header, other tenants are loaded on first use.
+  const tenants = new TenantRegistry({
+    primaryTenantId: config.Clover_Tenant_ID,
+    serverUrl: config.Clover_Server_Url,
+    secret: config.Clover_Secret,
+    tokens,
+    pb,
+    cache,
+    primaryDb: db,
+    databaseOptions: { staleWhileRevalidate: config.cache?.staleWhileRevalidate, topics },
+    realtimeCollections: config.realtime?.collections,
+    config: config.tenants,
+    fetch: options.cloverFetch,
+  });
+  await tenants.resolve();
+  logger.info("Primary tenant loaded", { tenantId: config.Clover_Tenant_ID });
+
+  // `cors.origin` wins over the older top-level `origin`.
+  const corsPolicy: CorsPolicy = { origin: config.origin, ...config.cors };
+
+  // Counters live in the state store, so nodes sharing it share the budgets.
+  const rateLimiter = new RateLimiter(state);
+  const globalRateLimits = toRules(config.rateLimit);
+  const globalIpLimits = globalRateLimits.filter(isIpKeyed);
+  const globalContextLimits = globalRateLimits.filter((rule) => !isIpKeyed(rule));
+
+  // --- Server Configuration Builder ---
+  async function createServeConfig() {
+    logger.debug("Building server configuration");
+
+    // MODIFIED: Reload the router to detect new/deleted files
+    router.reload();
+
+    const routes = new Map<string, RouteDefinition>();
+    const middlewares = new Map<string, Middleware[]>();
+    const websocketHandlers = new Map<string, RouteWebSocketHandler>();
+
+    const reimportModule = async (modulePath: string) => {
+      const resolvedPath = path.resolve(modulePath);
+      if (require.cache[resolvedPath]) {
+        delete require.cache[resolvedPath];
+      }
+      const module = require(modulePath);
+      return module;
+    };
+
+    // Each middleware.ts is imported once, however many routes it sits above.
+    const middlewareModules = new Map<string, Middleware | undefined>();
+    const loadMiddleware = async (middlewarePath: string) => {
+      if (!middlewareModules.has(middlewarePath)) {
+        const exists = await Bun.file(middlewarePath).exists();
+        middlewareModules.set(middlewarePath, exists ? (await reimportModule(middlewarePath)).default : undefined);
+      }
+      return middlewareModules.get(middlewarePath);
+    };
+
+    // Wraps every request, including ones that end in a 404 or 405.
+    const globalMiddleware = await loadMiddleware(path.join(root, MIDDLEWARE_FILE)).catch((e) => {
+      logger.error("Error loading global middleware", { error: e });
+      return undefined;
+    });
+
+    for (const [pathname, routePath] of Object.entries(router.routes)) {
+      if (path.basename(routePath as string) === MIDDLEWARE_FILE) continue;
+      try {
+        const routeModule = await reimportModule(routePath as string);
+        if (routeModule.websocket) {
+          websocketHandlers.set(pathname, routeModule.websocket);
+        }
+
+        const schemaPath = path.join(root, "schemas", pathname, "index.ts");
+        const schemaModule = (await Bun.file(schemaPath).exists()) ? await reimportModule(schemaPath) : undefined;
+        const definition = defineRouteFromModules(routeModule, schemaModule);
+        routes.set(pathname, definition);
+
+        const chain: Middleware[] = [];
+        for (const middlewarePath of middlewareChainPaths(routesDir, routePath as string)) {
+          const middleware = await loadMiddleware(middlewarePath);
+          if (middleware) chain.push(middleware);
+        }
+        middlewares.set(pathname, chain);
+      } catch (e) {
+        logger.error(`Error loading module for route ${pathname}`, { error: e });
+      }
+    }
+
+    logger.info("All modules loaded", { routes: routes.size });
+
+    // Rebuilt with the routes on every reload, so it always matches what is served.
+    const openapiPath = config.openapi ? config.openapi.path ?? DEFAULT_OPENAPI_PATH : undefined;
+    let openapiDocument: ReturnType<typeof buildOpenApiDocument> | undefined;
+    try {
+      if (config.openapi) openapiDocument = buildOpenApiDocument(routes, config.openapi);
+    } catch (e) {
+      logger.error("Error generating the OpenAPI document", { error: e });
+    }
+
+    return {
+      port: config.port,
+      // `server` is absent when createTestApp() dispatches directly, upgrades then fail with a 400.
+      async fetch(req: Request, server?: Server<WebSocketData>) {
+        const startedAt = performance.now();
+        const url = new URL(req.url);
+        const routeMatch = router.match(url.href);
+        const requestID = requestIdFrom(req.headers);
+        const cors = resolveCors(corsPolicy, routeMatch ? routes.get(routeMatch.name)?.cors : undefined);
+        const log = logger.child({ requestId: requestID });
+        let upgraded = false;
+        // The tightest rate limit the request was counted against, reported in RateLimit-* headers.
+        let limited: RateLimitResult | undefined;
+
+        const dispatch = async (context: Context, tenant: Tenant): Promise<Response> => {
+          if (openapiDocument && req.method === "GET") {
+            if (url.pathname === openapiPath) return Response.json(openapiDocument);
+            if (url.pathname === config.openapi?.docsPath) {
+              return new Response(renderDocsPage(openapiPath!, config.openapi.title), { headers: { "Content-Type": "text/html" } });
+            }
+          }
+
+          if (!routeMatch) {
+            return new Response("404 Not Found", { status: 404 });
+          }
+
+          // Kept for websocket-only routes too, their access rules still apply to upgrades.
+          const definition = routes.get(routeMatch.name);
+          const route = definition && hasHttpHandlers(definition) ? definition : undefined;
+          const websocketHandler = websocketHandlers.get(routeMatch.name);
+          const isUpgrade = req.headers.get("upgrade")?.toLowerCase() === "websocket";
+
+          if (!route && !(isUpgrade && websocketHandler)) {
+            return new Response(`Route handler for ${routeMatch.name} not found.`, { status: 404 });
+          }
+
+          const allow = route ? allowedMethods(route).join(", ") : "GET";
+          // Plain OPTIONS is answered from the route's exports, CORS preflights never get here.
+          if (req.method === "OPTIONS") {
+            return new Response(null, { status: 204, headers: { Allow: allow } });
+          }
+
+          const routeHandler = route && !isUpgrade ? resolveHandler(route, req.method) : undefined;
+          if (!routeHandler && !(isUpgrade && websocketHandler)) {
+            return new Response(`Method ${req.method} not allowed on ${url.pathname}.`, {
+              status: 405,
+              headers: { Allow: allow },
+            });
+          }
+          const schema = route ? resolveSchema(route, req.method) : undefined;
+
+          // Counted before access rules, so failed logins and rejected tokens use up the budget too.
+          const routeLimit = definition && (await rateLimiter.check(resolveRateLimits(definition, req.method), routeMatch.name, context));
+          if (routeLimit) limited = tighter(limited, routeLimit);
+          if (routeLimit && !routeLimit.allowed) return rateLimitedResponse(routeLimit);
+
+          // Access rules run before the route's middleware, so middleware can rely on them.
+          const denied = definition && enforceAccess(resolveAccess(definition, req.method), context.principal, routeMatch.params);
+          if (denied) return denied;
+
+          // Only read once the route, its rate limits and access rules let the request through.
+          await readBody(context, req, config.body);
+
+          return runMiddleware(middlewares.get(routeMatch.name) ?? [], context, async () => {
+            if (isUpgrade && websocketHandler) {
+              const data: WebSocketData = { ctx: context, principal: context.principal, route: routeMatch.name };
+              if (!server?.upgrade(req, { data })) return new Response("WebSocket upgrade failed", { status: 400 });
+              // Bun already answered with 101, this response is never sent.
+              upgraded = true;
+              return new Response(null);
+            }
+
+            if (schema) {
+              const validation = validateInput(schema, context.input);
+              if (!validation.success) {
+                return Response.json(validationErrorBody(validation.issues), { status: 400 });
+              }
+              context.input = validation.input;
+            }
+
+            const scope = tenant.db.beginScope();
+            try {
+              const response = await routeHandler!(context, scope);
+              // HEAD served by a GET handler keeps the status and headers but drops the body.
+              if (req.method === "HEAD" && response.body) {
+                return new Response(null, { status: response.status, statusText: response.statusText, headers: response.headers });
+              }
+              return response;
+            } finally {
+              await scope.endScope();
+            }
+          });
+        };
+
+        // Never throws, so failures leave through the CORS step below instead of Bun's error handler.
+        const handle = async (): Promise<Response> => {
+          try {
+            // Served ahead of tenants, rate limits and middleware, scrapers are not API clients.
+            if (config.metrics && req.method === "GET" && url.pathname === (config.metrics.path ?? DEFAULT_METRICS_PATH)) {
+              return metricsResponse(req, config.metrics);
+            }
+            // Preflights carry no credentials, so they are answered before tenants, rate limits and middleware.
+            if (isPreflight(req)) {
+              const definition = routeMatch && routes.get(routeMatch.name);
+              if (!definition || !hasHttpHandlers(definition)) return new Response("404 Not Found", { status: 404 });
+              return preflightResponse(req, cors, allowedMethods(definition).join(", "));
+            }
+
+            const ipAddress = clientIp(req, server, config.trustProxy);
+            // Counted before the tenant is resolved, so unknown tenants and the Clover lookups they cause are limited too.
+            limited = await rateLimiter.checkIp(globalIpLimits, "global", ipAddress);
+            if (limited && !limited.allowed) return rateLimitedResponse(limited);
+
+            const tenant = await tenants.resolve(req.headers.get("tenantid"));
+            const context = await buildRequestContext(req.headers, tenant, { requestID, ipAddress, log });
+            context.metadata.params = routeMatch?.params ?? {};
+            context.metadata.query = routeMatch?.query ?? Object.fromEntries(url.searchParams);
+            context.metadata.headers = Object.fromEntries(req.headers.entries());
+            context.input = {
+              body: undefined,
+              query: context.metadata.query,
+              headers: context.metadata.headers,
+              params: context.metadata.params,
+            };
+
+            const contextLimit = await rateLimiter.check(globalContextLimits, "global", context);
+            limited = tighter(limited, contextLimit);
+            if (contextLimit && !contextLimit.allowed) return rateLimitedResponse(contextLimit);
+
+            const response = await runMiddleware(globalMiddleware ? [globalMiddleware] : [], context, () => dispatch(context, tenant));
+            return limited ? withRateLimitHeaders(response, limited) : response;
+          } catch (err) {
+            if (err instanceof BodyParseError) {
+              return Response.json({ success: false, error: { message: err.message } }, { status: err.status });
+            }
+            if (err instanceof TenantResolutionError) {
+              return Response.json({ success: false, error: { code: err.code, message: err.message } }, { status: err.status });
+            }
+            log.error(`Error handling ${url.pathname}`, { error: err });
+            return new Response("Internal Server Error", { status: 500 });
+          }
+        };
+
+        const response = await handle();
+        const status = upgraded ? 101 : response.status;
+        const seconds = (performance.now() - startedAt) / 1000;
+        const route = routeMatch?.name ?? "unmatched";
+        httpRequestsTotal.inc({ route, method: req.method, status });
+        httpRequestDuration.observe({ route, method: req.method }, seconds);
+        if (config.logging?.accessLog !== false) {
+          log.info("request", {
+            method: req.method,
+            path: url.pathname,
+            status,
+            durationMs: Math.round(seconds * 100_000) / 100,
+          });
+        }
+        if (upgraded) return undefined;
+        // Every response leaves through here, errors and middleware short-circuits included.
+        return applyCors(withHeaders(response, { "X-Request-ID": requestID }), req, cors);
+      },
+      websocket: {
+        async open(ws: RouteWebSocket) {
+          await websocketHandlers.get(ws.data.route)?.open?.(tenantSocket(ws));
+        },
+        async message(ws: RouteWebSocket, message: string | Buffer) {
+          await websocketHandlers.get(ws.data.route)?.message?.(tenantSocket(ws), message);
+        },
+        async close(ws: RouteWebSocket, code: number, reason: string) {
+          await websocketHandlers.get(ws.data.route)?.close?.(tenantSocket(ws), code, reason);
+        },
+      },
+      error(error: Error) {
+        logger.error("Uncaught error", { error });
+        return new Response("Something went wrong!", { status: 500 });
+      },
+    };
+  }
+
+  return { config, root, pb, cache, db, tokens, tenants, createServeConfig };
+}
+
+// --- Helper Functions ---
+
+/** The caller's X-Request-ID when it looks like an ID, a fresh UUID otherwise. */
+function requestIdFrom(headers: Headers): string {
+  const incoming = headers.get("x-request-id");
+  return incoming && /^[\w.:-]{1,128}$/.test(incoming) ? incoming : crypto.randomUUID();
+}
+
+/**
+ * The socket as route handlers see it: topic methods act on the tenant the
+ * socket was opened for, so `ws.subscribe("posts")` only hears that tenant.
+ */
+function tenantSocket(ws: RouteWebSocket): RouteWebSocket {
+  const prefix = tenantTopic(ws.data.ctx.tenantId!);
+  const scoped: Partial<Record<PropertyKey, unknown>> = {
+    subscribe: (topic: string) => ws.subscribe(prefix + topic),
+    unsubscribe: (topic: string) => ws.unsubscribe(prefix + topic),
+    isSubscribed: (topic: string) => ws.isSubscribed(prefix + topic),
+    publish: (topic: string, data: any, compress?: boolean) => ws.publish(prefix + topic, data, compress),
+    publishText: (topic: string, data: string, compress?: boolean) => ws.publishText(prefix + topic, data, compress),
+    publishBinary: (topic: string, data: any, compress?: boolean) => ws.publishBinary(prefix + topic, data, compress),
+  };
+  return new Proxy(ws, {
+    get(target, property) {
+      if (property in scoped) return scoped[property];
+      if (property === "subscriptions") {
+        return target.subscriptions.filter((topic) => topic.startsWith(prefix)).map((topic) => topic.slice(prefix.length));
+      }
+      // Bun's methods need the real socket as `this`.
+      const value = Reflect.get(target, property, target);
+      return typeof value === "function" ? value.bind(target) : value;
+    },
+  });
+}
+
+/** The socket's address, or the first X-Forwarded-For entry when `trustProxy` is set. */
+function clientIp(req: Request, server: Server<WebSocketData> | undefined, trustProxy?: boolean): string | undefined {
+  if (trustProxy) {
+    const forwarded = req.headers.get("x-forwarded-for")?.split(",")[0]?.trim();
+    if (forwarded) return forwarded;
+  }
+  return server?.requestIP(req)?.address;
+}
+
+/** Parses the body into the context's metadata, files and `input.body`. */
+async function readBody(context: Context, req: Request, limits?: BodyLimits) {
+  const { body, json, files } = await parseRequestBody(req, limits);
+  context.metadata.body = body;
+  context.metadata.json = json;
+  context.files = files;
+  context.input.body = body ?? json;
+}
+
+/** The body is left unread here, see readBody(). */
+async function buildRequestContext(
+  headers: Headers,
+  tenant: Tenant,
+  request: { requestID: string; ipAddress?: string; log: Logger }
+) {
+  const context = {
+    principal: { isAuthenticated: false } as Principal,
+    services: { Clover: tenant.clover.forRequest(headers) },
+    metadata: {
+      requestID: request.requestID,
+      timestamp: new Date(),
+      ipAddress: request.ipAddress,
+      params: {},
+      query: {},
+      body: undefined as any,
+      json: {},
+      headers: {},
+    },
+    files: {},
+    state: {},
+    input: { body: undefined as any, query: {}, headers: {}, params: {} },
+    tenantId: tenant.id,
+    log: request.log.child({ tenantId: tenant.id }),
+    json: (value: any, status?: number, statusText?: string) => {
+      return Response.json(value, {
+        ...(status && { status }),
+      });
+    },
+
+    text: (value: string, status?: number, statusText?: string) => {
+      return new Response(value, {
+        ...(status && { status }),
+        ...(statusText && { statusText }),
+        headers: {
+          "Content-Type": "text/plain",
+        },
+      });
+    },
+
+    sse: (setup: Parameters<Context["sse"]>[0]) => {
+      return createSseResponse(setup, {}, tenantTopic(tenant.id));
+    },
+
+    publish: (topic: string, data: any) => topics.publish(tenantTopic(tenant.id, topic), data, topic),
+
+    html: (value: string, status: number, statusText?: string) => {
+      return new Response(value, {
+        ...(status && { status }),
+        ...(statusText && { statusText }),
+        headers: {
+          "Content-Type": "text/html",
+        },
+      });
+    },
+  };
+
+  const authHeader = headers.get("authorization");
+  const token = authHeader?.startsWith("Bearer ") ? authHeader.split(" ")[1] : null;
+
+  if (token) {
+    context.principal = await context.services.Clover.Verify(token);
+    // Tokens are signed with one key for every tenant, so a token only counts for the tenant that issued it.
+    if (context.principal.isAuthenticated && context.principal.clover_assigned_id !== tenant.id) {
+      context.principal = {
+        isAuthenticated: false,
+        error: new CloverError("tenant_mismatch", "Token was issued for another tenant", 401),
+      };
+    }
+  }
+
+  return context;
+}
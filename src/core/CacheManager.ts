@@ -1,47 +1,133 @@
 //@ts-nocheck
-const COMPRESSION_THRESHOLD = 1024;
+import type { CacheStore } from "./CacheStore";
+import { logger } from "./Logger";
 
-interface CacheSyncMessage {
-  action: "set" | "delete" | "invalidate";
-  key: string;
+const log = logger.child({ component: "CacheHandler" });
+
+export const COMPRESSION_THRESHOLD = 1024;
+
+export type EvictionPolicy = "lru" | "lfu";
+
+export interface CacheOptions {
+  /** Maximum number of entries, 0 or unset means unbounded. */
+  maxEntries?: number;
+  /** Maximum bytes held (compressed entries count by their gzip size), 0 or unset means unbounded. */
+  maxBytes?: number;
+  /** Which entry goes first once a limit is hit, defaults to "lru". */
+  evictionPolicy?: EvictionPolicy;
+  /** Identifies this node in sync messages, defaults to a random UUID. */
+  nodeId?: string;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  evictions: number;
+  expirations: number;
+  entries: number;
+  bytes: number;
+  compressedEntries: number;
+  /** Uncompressed size / stored size over every compressed entry, 1 when nothing is compressed. */
+  compressionRatio: number;
+  /** Bytes held per key prefix (the part before the first ":"). */
+  bytesByPrefix: Record<string, number>;
+}
+
+interface CacheEntry {
+  data: any;
+  ttl: number;
+  compressed?: boolean;
+  /** Bytes this entry accounts for against maxBytes. */
+  size: number;
+  /** Size before compression, equal to size for uncompressed entries. */
+  rawSize: number;
+  hits: number;
+  tags: string[];
+}
+
+export interface CacheSyncMessage {
+  action: "set" | "delete" | "invalidate" | "invalidateTag" | "heartbeat";
+  key: string; // the prefix for 'invalidate', the tag for 'invalidateTag', empty for 'heartbeat'
   data?: any; // For 'set'
+  tags?: string[]; // For 'set'
   expiresAt?: number;
-  source: number;
+  source: string;
+  /** Per-source sequence number, stamped by CacheSync so receivers can spot dropped messages. */
+  seq?: number;
+}
+
+/** Rough byte size of a key, used so that long keys count against maxBytes too. */
+function keySize(key: string): number {
+  return Buffer.byteLength(key);
+}
+
+/** Prefix used to group stats, "posts:list:1:10" → "posts". */
+function keyPrefix(key: string): string {
+  const index = key.indexOf(":");
+  return index === -1 ? key : key.slice(0, index);
 }
 
-export default class CacheHandler {
-  private cache = new Map<string, { data: any; ttl: number; compressed?: boolean }>();
+/** The default in-memory CacheStore. */
+export default class CacheHandler implements CacheStore {
+  // Map keeps insertion order, entries are re-inserted on access so the first key is always the least recently used.
+  private cache = new Map<string, CacheEntry>();
+  /** Tag → keys of the entries carrying it. */
+  private tagIndex = new Map<string, Set<string>>();
   private broadcastCallback?: (msg: CacheSyncMessage) => void;
+  private options: Required<Omit<CacheOptions, "nodeId">>;
+  public readonly nodeId: string;
+  private totalBytes = 0;
+  private counters = { hits: 0, misses: 0, evictions: 0, expirations: 0 };
 
-  constructor() {
+  constructor(options: CacheOptions = {}) {
+    this.options = {
+      maxEntries: options.maxEntries ?? 0,
+      maxBytes: options.maxBytes ?? 0,
+      evictionPolicy: options.evictionPolicy ?? "lru",
+    };
+    this.nodeId = options.nodeId || crypto.randomUUID();
     this.startExpirationCheck();
   }
 
-  public setBroadcastCallback(callback: (msg: CacheSyncMessage) => void) {
+  public setBroadcastCallback(callback?: (msg: CacheSyncMessage) => void) {
     this.broadcastCallback = callback;
   }
   public timesVisited = new Map<string, { incremental: number }>();
   /** Store data in cache, compress if large */
-  public set(key: string, data: any, ttlSeconds = 0, isInternal = false): any {
+  public set(key: string, data: any, ttlSeconds = 0, tags: string[] = [], isInternal = false): any {
     if (!key.includes("undefined") && !key.includes("null")) {
       const expiresAt = ttlSeconds > 0 ? Date.now() + ttlSeconds * 1000 : 0;
+      const previous = this.cache.get(key);
+      let entry: CacheEntry;
       try {
         const jsonStr = JSON.stringify(data);
+        const rawSize = Buffer.byteLength(jsonStr) + keySize(key);
         if (jsonStr.length > COMPRESSION_THRESHOLD) {
           const compressed = Bun.gzipSync(new TextEncoder().encode(jsonStr));
-          this.cache.set(key, { data: compressed, ttl: expiresAt, compressed: true });
+          entry = { data: compressed, ttl: expiresAt, compressed: true, size: compressed.byteLength + keySize(key), rawSize, hits: 0, tags };
         } else {
-          this.cache.set(key, { data, ttl: expiresAt });
+          entry = { data, ttl: expiresAt, size: rawSize, rawSize, hits: 0, tags };
         }
       } catch {
-        this.cache.set(key, { data, ttl: expiresAt });
+        entry = { data, ttl: expiresAt, size: keySize(key), rawSize: keySize(key), hits: 0, tags };
       }
+      // Overwriting keeps the frequency count, otherwise hot keys would lose it on every refresh.
+      if (previous) entry.hits = previous.hits;
+      this.removeEntry(key);
+      this.cache.set(key, entry);
+      this.totalBytes += entry.size;
+      for (const tag of tags) {
+        let keys = this.tagIndex.get(tag);
+        if (!keys) this.tagIndex.set(tag, (keys = new Set()));
+        keys.add(key);
+      }
+      this.evictIfNeeded(key);
 
       if (this.broadcastCallback && !isInternal) {
-        this.broadcastCallback({ action: "set", key, data, expiresAt, source: parseInt(config.Server.NodeId as any) });
+        this.broadcastCallback({ action: "set", key, data, expiresAt, tags, source: this.nodeId });
       }
     } else {
-      console.warn(`[CacheHandler] Invalid cache key: ${key}`);
+      log.warn(`Invalid cache key: ${key}`);
     }
     return data;
   }
@@ -68,39 +154,167 @@ export default class CacheHandler {
   }
   public get<T>(key: string): T | null {
     const entry = this.cache.get(key);
-    if (!entry) return null;
+    if (!entry) {
+      this.counters.misses++;
+      return null;
+    }
     if (entry.ttl > 0 && entry.ttl < Date.now()) {
-      this.cache.delete(key);
+      this.removeEntry(key);
+      this.counters.expirations++;
+      this.counters.misses++;
       return null;
     }
     if (entry.compressed) {
       try {
         const decompressed = Bun.gunzipSync(entry.data);
-        return JSON.parse(new TextDecoder().decode(decompressed));
+        const value = JSON.parse(new TextDecoder().decode(decompressed));
+        this.touch(key, entry);
+        return value;
       } catch {
-        this.cache.delete(key);
+        this.removeEntry(key);
+        this.counters.misses++;
         return null;
       }
     }
+    this.touch(key, entry);
     return entry.data;
   }
 
-  public delete(key: string): boolean {
-    if (this.broadcastCallback) {
-      this.broadcastCallback({ action: "delete", key, source: parseInt(config.Server.NodeId as any) });
+  /** Records a hit and moves the entry to the most recently used end. */
+  private touch(key: string, entry: CacheEntry) {
+    this.counters.hits++;
+    entry.hits++;
+    this.cache.delete(key);
+    this.cache.set(key, entry);
+  }
+
+  /** Deletes an entry locally and keeps the byte count and tag index in sync. */
+  private removeEntry(key: string): boolean {
+    const entry = this.cache.get(key);
+    if (!entry) return false;
+    this.totalBytes -= entry.size;
+    for (const tag of entry.tags) {
+      const keys = this.tagIndex.get(tag);
+      keys?.delete(key);
+      if (keys?.size === 0) this.tagIndex.delete(tag);
     }
     return this.cache.delete(key);
   }
 
+  /** Evicts entries until both limits hold again, never evicting the key that was just written. */
+  private evictIfNeeded(justWritten: string) {
+    const { maxEntries, maxBytes } = this.options;
+    const overLimit = () =>
+      (maxEntries > 0 && this.cache.size > maxEntries) || (maxBytes > 0 && this.totalBytes > maxBytes);
+
+    while (overLimit() && this.cache.size > 1) {
+      const victim = this.pickVictim(justWritten);
+      if (!victim) break;
+      this.removeEntry(victim);
+      this.timesVisited.delete(victim);
+      this.counters.evictions++;
+    }
+  }
+
+  private pickVictim(exclude: string): string | undefined {
+    if (this.options.evictionPolicy === "lru") {
+      for (const key of this.cache.keys()) {
+        if (key !== exclude) return key;
+      }
+      return undefined;
+    }
+    // LFU: fewest hits goes first, ties go to the least recently used one.
+    let victim: string | undefined;
+    let fewestHits = Infinity;
+    for (const [key, entry] of this.cache) {
+      if (key !== exclude && entry.hits < fewestHits) {
+        victim = key;
+        fewestHits = entry.hits;
+      }
+    }
+    return victim;
+  }
+
+  /** Snapshot of cache usage since startup. */
+  public stats(): CacheStats {
+    const bytesByPrefix: Record<string, number> = {};
+    let compressedEntries = 0;
+    let compressedRaw = 0;
+    let compressedStored = 0;
+    for (const [key, entry] of this.cache) {
+      const prefix = keyPrefix(key);
+      bytesByPrefix[prefix] = (bytesByPrefix[prefix] ?? 0) + entry.size;
+      if (entry.compressed) {
+        compressedEntries++;
+        compressedRaw += entry.rawSize;
+        compressedStored += entry.size;
+      }
+    }
+    return {
+      ...this.counters,
+      entries: this.cache.size,
+      bytes: this.totalBytes,
+      compressedEntries,
+      compressionRatio: compressedStored > 0 ? compressedRaw / compressedStored : 1,
+      bytesByPrefix,
+    };
+  }
+
+  /** Every key currently held (optionally only those under `prefix`), including ones that expired but were not swept yet. */
+  public keys(prefix = ""): string[] {
+    return [...this.cache.keys()].filter((key) => key.startsWith(prefix));
+  }
+
+  public delete(key: string, isInternal = false): boolean {
+    if (this.broadcastCallback && !isInternal) {
+      this.broadcastCallback({ action: "delete", key, source: this.nodeId });
+    }
+    return this.removeEntry(key);
+  }
+
   /** Invalidate all keys starting with prefix */
-  public invalidateByPrefix(prefix: string): void {
+  public invalidateByPrefix(prefix: string, isInternal = false): void {
     for (const key of this.cache.keys()) {
       if (key.startsWith(prefix)) {
-        this.cache.delete(key);
-        if (this.broadcastCallback) {
-          this.broadcastCallback({ action: "invalidate", key, source: parseInt(config.Server.NodeId as any) });
-        }
+        this.removeEntry(key);
+      }
+    }
+    // Broadcast even when nothing matched here, other nodes may still hold keys under the prefix.
+    if (this.broadcastCallback && !isInternal) {
+      this.broadcastCallback({ action: "invalidate", key: prefix, source: this.nodeId });
+    }
+  }
+
+  /** Invalidate every entry that was stored with `tag` */
+  public invalidateByTag(tag: string, isInternal = false): void {
+    for (const key of [...(this.tagIndex.get(tag) ?? [])]) {
+      this.removeEntry(key);
+    }
+    if (this.broadcastCallback && !isInternal) {
+      this.broadcastCallback({ action: "invalidateTag", key: tag, source: this.nodeId });
+    }
+  }
+
+  /** Applies a message received from another node without broadcasting it again. Echoes of our own messages are ignored. */
+  public applySyncMessage(msg: CacheSyncMessage): void {
+    if (msg.source === this.nodeId) return;
+    switch (msg.action) {
+      case "set": {
+        // expiresAt is absolute, so the entry expires at the same moment on every node.
+        if (msg.expiresAt && msg.expiresAt <= Date.now()) return;
+        const ttlSeconds = msg.expiresAt ? (msg.expiresAt - Date.now()) / 1000 : 0;
+        this.set(msg.key, msg.data, ttlSeconds, msg.tags ?? [], true);
+        break;
       }
+      case "delete":
+        this.delete(msg.key, true);
+        break;
+      case "invalidate":
+        this.invalidateByPrefix(msg.key, true);
+        break;
+      case "invalidateTag":
+        this.invalidateByTag(msg.key, true);
+        break;
     }
   }
 
@@ -109,9 +323,14 @@ export default class CacheHandler {
       const now = Date.now();
       for (const [key, { ttl }] of this.cache.entries()) {
         if (ttl > 0 && ttl < now) {
-          this.cache.delete(key);
+          this.removeEntry(key);
+          this.counters.expirations++;
         }
       }
+      // Visit counts are only useful while the key is cached, drop the rest so the map can't grow forever.
+      for (const key of this.timesVisited.keys()) {
+        if (!this.cache.has(key)) this.timesVisited.delete(key);
+      }
     }, 60000);
   }
 }
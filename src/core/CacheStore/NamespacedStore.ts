@@ -0,0 +1,38 @@
+import type { CacheStore } from ".";
+
+/**
+ * A view of another store where every key and tag lives under `namespace`,
+ * so two views over the same store never see or invalidate each other's entries.
+ */
+export class NamespacedCacheStore implements CacheStore {
+  public getDynamicTTL?: (key: string) => number;
+
+  constructor(private store: CacheStore, private namespace: string) {
+    if (store.getDynamicTTL) this.getDynamicTTL = (key) => store.getDynamicTTL!(namespace + key);
+  }
+
+  public get<T>(key: string) {
+    return this.store.get<T>(this.namespace + key);
+  }
+
+  public set(key: string, data: any, ttlSeconds?: number, tags: string[] = []) {
+    return this.store.set(this.namespace + key, data, ttlSeconds, tags.map((tag) => this.namespace + tag));
+  }
+
+  public delete(key: string) {
+    return this.store.delete(this.namespace + key);
+  }
+
+  public invalidateByPrefix(prefix: string) {
+    return this.store.invalidateByPrefix(this.namespace + prefix);
+  }
+
+  public invalidateByTag(tag: string) {
+    return this.store.invalidateByTag(this.namespace + tag);
+  }
+
+  public async keys(prefix = "") {
+    const keys = await this.store.keys(this.namespace + prefix);
+    return keys.map((key) => key.slice(this.namespace.length));
+  }
+}
@@ -0,0 +1,247 @@
+import net from "net";
+import type { CacheStore } from "./index";
+import { logger } from "../Logger";
+
+const log = logger.child({ component: "RespCacheStore" });
+
+export type RespStoreOptions = {
+  /** redis://[user:password@]host:port[/db], defaults to redis://127.0.0.1:6379. */
+  url?: string;
+  /** Namespace prepended to every key on the server, defaults to "hapta:". */
+  keyPrefix?: string;
+};
+
+type RespValue = string | number | null | RespValue[];
+
+class RespError extends Error {}
+
+/** Escapes glob characters so a key prefix can be used in SCAN MATCH. */
+function escapeGlob(value: string): string {
+  return value.replace(/[*?[\]\\]/g, "\\$&");
+}
+
+/**
+ * Minimal RESP2 client: one connection, pipelined commands answered in order.
+ * Connects lazily and reconnects on the next command after the link drops.
+ */
+export class RespClient {
+  private socket?: net.Socket;
+  private ready?: Promise<void>;
+  private buffer = Buffer.alloc(0);
+  private pending: Array<{ resolve: (value: RespValue) => void; reject: (error: Error) => void }> = [];
+
+  constructor(private url: URL) {}
+
+  public async command(...args: (string | number)[]): Promise<RespValue> {
+    await this.connect();
+    return this.send(args);
+  }
+
+  private send(args: (string | number)[]): Promise<RespValue> {
+    const parts = args.map(String);
+    const payload = `*${parts.length}\r\n` + parts.map((part) => `$${Buffer.byteLength(part)}\r\n${part}\r\n`).join("");
+    return new Promise((resolve, reject) => {
+      this.pending.push({ resolve, reject });
+      this.socket!.write(payload);
+    });
+  }
+
+  private connect(): Promise<void> {
+    if (this.ready) return this.ready;
+    this.ready = new Promise<void>((resolve, reject) => {
+      const socket = net.createConnection({ host: this.url.hostname || "127.0.0.1", port: Number(this.url.port || 6379) });
+      this.socket = socket;
+      socket.on("data", (chunk) => this.onData(chunk as Buffer));
+      socket.on("error", reject); // a no-op once connected, "close" handles later failures
+      socket.on("close", () => {
+        // A connection dropped after a reset must not fail the commands of its replacement.
+        if (this.socket === socket) this.reset(new Error("RESP connection closed"));
+      });
+      socket.once("connect", async () => {
+        try {
+          const password = decodeURIComponent(this.url.password);
+          const username = decodeURIComponent(this.url.username);
+          if (password) await this.send(username ? ["AUTH", username, password] : ["AUTH", password]);
+          const db = this.url.pathname.slice(1);
+          if (db) await this.send(["SELECT", db]);
+          resolve();
+        } catch (error) {
+          reject(error);
+          socket.destroy();
+        }
+      });
+    });
+    // Let the next command retry instead of failing forever.
+    this.ready.catch(() => this.reset(new Error("RESP connection failed")));
+    return this.ready;
+  }
+
+  private reset(error: Error) {
+    this.ready = undefined;
+    this.socket = undefined;
+    this.buffer = Buffer.alloc(0);
+    for (const waiter of this.pending.splice(0)) waiter.reject(error);
+  }
+
+  private onData(chunk: Buffer) {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    while (this.pending.length > 0) {
+      let parsed: ReturnType<RespClient["parse"]>;
+      try {
+        parsed = this.parse(0);
+      } catch (error) {
+        // The stream can't be resynchronised, fail what is waiting and start over on a new connection.
+        log.error("unreadable reply, resetting connection", { error });
+        this.socket?.destroy();
+        this.reset(error as Error);
+        return;
+      }
+      if (!parsed) return;
+      this.buffer = this.buffer.subarray(parsed.end);
+      const waiter = this.pending.shift()!;
+      if (parsed.value instanceof RespError) waiter.reject(parsed.value);
+      else waiter.resolve(parsed.value as RespValue);
+    }
+  }
+
+  /** Parses one reply starting at `offset`, returns null while the reply is still incomplete. */
+  private parse(offset: number): { value: RespValue | RespError; end: number } | null {
+    const lineEnd = this.buffer.indexOf("\r\n", offset);
+    if (lineEnd === -1) return null;
+    const type = String.fromCharCode(this.buffer[offset]);
+    const line = this.buffer.toString("utf8", offset + 1, lineEnd);
+    const next = lineEnd + 2;
+
+    switch (type) {
+      case "+":
+        return { value: line, end: next };
+      case "-":
+        return { value: new RespError(line), end: next };
+      case ":":
+        return { value: Number(line), end: next };
+      case "$": {
+        const length = Number(line);
+        if (length === -1) return { value: null, end: next };
+        if (this.buffer.length < next + length + 2) return null;
+        return { value: this.buffer.toString("utf8", next, next + length), end: next + length + 2 };
+      }
+      case "*": {
+        const count = Number(line);
+        if (count === -1) return { value: null, end: next };
+        const items: RespValue[] = [];
+        let end = next;
+        for (let i = 0; i < count; i++) {
+          const item = this.parse(end);
+          if (!item) return null;
+          if (item.value instanceof RespError) return { value: item.value, end: item.end };
+          items.push(item.value);
+          end = item.end;
+        }
+        return { value: items, end };
+      }
+      default:
+        throw new Error(`Unexpected RESP reply type "${type}"`);
+    }
+  }
+}
+
+/** Cache kept on any Redis-compatible server (Redis, Valkey, KeyDB, Dragonfly...). */
+export class RespCacheStore implements CacheStore {
+  private client: RespClient;
+  private keyPrefix: string;
+
+  constructor(options: RespStoreOptions = {}) {
+    this.client = new RespClient(new URL(options.url ?? "redis://127.0.0.1:6379"));
+    this.keyPrefix = options.keyPrefix ?? "hapta:";
+  }
+
+  public async get<T>(key: string): Promise<T | null> {
+    try {
+      const value = await this.client.command("GET", this.keyPrefix + key);
+      return typeof value === "string" ? JSON.parse(value) : null;
+    } catch (error) {
+      // An unreachable cache is treated as a miss, PocketBase still answers.
+      log.error(`get failed: ${key}`, { error });
+      return null;
+    }
+  }
+
+  public async set(key: string, data: any, ttlSeconds = 0, tags: string[] = []): Promise<any> {
+    if (key.includes("undefined") || key.includes("null")) {
+      log.warn(`Invalid cache key: ${key}`);
+      return data;
+    }
+    try {
+      const ttlMs = Math.round(ttlSeconds * 1000);
+      const args: (string | number)[] = ["SET", this.keyPrefix + key, JSON.stringify(data)];
+      if (ttlMs > 0) args.push("PX", ttlMs);
+      await this.client.command(...args);
+      // Tag sets never expire on their own, members whose entry already expired are harmless and go on the next invalidation.
+      for (const tag of tags) {
+        await this.client.command("SADD", this.tagKey(tag), this.keyPrefix + key);
+      }
+    } catch (error) {
+      log.error(`set failed: ${key}`, { error });
+    }
+    return data;
+  }
+
+  public async delete(key: string): Promise<boolean> {
+    try {
+      return (await this.client.command("DEL", this.keyPrefix + key)) === 1;
+    } catch (error) {
+      log.error(`delete failed: ${key}`, { error });
+      return false;
+    }
+  }
+
+  public async invalidateByPrefix(prefix: string): Promise<void> {
+    try {
+      const keys = await this.scan(prefix);
+      // DEL accepts many keys, but keep each command reasonably small.
+      for (let i = 0; i < keys.length; i += 500) {
+        await this.client.command("DEL", ...keys.slice(i, i + 500));
+      }
+    } catch (error) {
+      log.error(`invalidateByPrefix failed: ${prefix}`, { error });
+    }
+  }
+
+  public async invalidateByTag(tag: string): Promise<void> {
+    try {
+      const keys = (await this.client.command("SMEMBERS", this.tagKey(tag))) as string[];
+      for (let i = 0; i < keys.length; i += 500) {
+        await this.client.command("DEL", ...keys.slice(i, i + 500));
+      }
+      await this.client.command("DEL", this.tagKey(tag));
+    } catch (error) {
+      log.error(`invalidateByTag failed: ${tag}`, { error });
+    }
+  }
+
+  /** "#" never appears in a generated cache key, so tag sets can't collide with entries. */
+  private tagKey(tag: string): string {
+    return `${this.keyPrefix}#tag:${tag}`;
+  }
+
+  public async keys(prefix = ""): Promise<string[]> {
+    try {
+      return (await this.scan(prefix)).map((key) => key.slice(this.keyPrefix.length));
+    } catch (error) {
+      log.error(`keys failed: ${prefix}`, { error });
+      return [];
+    }
+  }
+
+  /** Full-key names (namespace included) of the entries under `prefix`, tag sets and RespStateStore keys ("#...") excluded. */
+  private async scan(prefix: string): Promise<string[]> {
+    const found: string[] = [];
+    let cursor = "0";
+    do {
+      const reply = (await this.client.command("SCAN", cursor, "MATCH", escapeGlob(this.keyPrefix + prefix) + "*", "COUNT", 500)) as [string, string[]];
+      cursor = reply[0];
+      found.push(...reply[1].filter((key) => !key.startsWith(`${this.keyPrefix}#`)));
+    } while (cursor !== "0");
+    return found;
+  }
+}
@@ -0,0 +1,129 @@
+import { Database } from "bun:sqlite";
+import fs from "fs";
+import path from "path";
+import { COMPRESSION_THRESHOLD } from "../CacheManager";
+import type { CacheStore } from "./index";
+import { logger } from "../Logger";
+
+const log = logger.child({ component: "SqliteCacheStore" });
+
+export type SqliteStoreOptions = {
+  /** Database file, defaults to .hapta/cache.sqlite in the working directory. */
+  path?: string;
+  /** Oldest entries are dropped past this many rows, 0 or unset means unbounded. */
+  maxEntries?: number;
+};
+
+type Row = { value: Uint8Array<ArrayBuffer> | string; expires_at: number; compressed: number };
+
+/** Cache kept in a bun:sqlite file, so it survives restarts and hot reloads. */
+export class SqliteCacheStore implements CacheStore {
+  private db: Database;
+  private maxEntries: number;
+  private statements;
+
+  constructor(options: SqliteStoreOptions = {}) {
+    const file = options.path ?? path.join(process.cwd(), ".hapta", "cache.sqlite");
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    this.db = new Database(file, { create: true });
+    this.db.exec("PRAGMA journal_mode = WAL;");
+    this.db.exec("PRAGMA foreign_keys = ON;");
+    this.db.exec(`CREATE TABLE IF NOT EXISTS cache (
+      key TEXT PRIMARY KEY,
+      value BLOB NOT NULL,
+      expires_at INTEGER NOT NULL DEFAULT 0,
+      compressed INTEGER NOT NULL DEFAULT 0,
+      written_at INTEGER NOT NULL
+    )`);
+    this.db.exec(`CREATE TABLE IF NOT EXISTS cache_tags (
+      tag TEXT NOT NULL,
+      key TEXT NOT NULL REFERENCES cache(key) ON DELETE CASCADE,
+      PRIMARY KEY (tag, key)
+    )`);
+    this.db.exec("CREATE INDEX IF NOT EXISTS cache_tags_key ON cache_tags (key)");
+    this.maxEntries = options.maxEntries ?? 0;
+
+    this.statements = {
+      get: this.db.query<Row, [string]>("SELECT value, expires_at, compressed FROM cache WHERE key = ?"),
+      set: this.db.query(
+        "INSERT OR REPLACE INTO cache (key, value, expires_at, compressed, written_at) VALUES (?, ?, ?, ?, ?)"
+      ),
+      delete: this.db.query("DELETE FROM cache WHERE key = ?"),
+      clearTags: this.db.query("DELETE FROM cache_tags WHERE key = ?"),
+      addTag: this.db.query("INSERT OR IGNORE INTO cache_tags (tag, key) VALUES (?, ?)"),
+      deleteTag: this.db.query("DELETE FROM cache WHERE key IN (SELECT key FROM cache_tags WHERE tag = ?)"),
+      deletePrefix: this.db.query("DELETE FROM cache WHERE substr(key, 1, ?) = ?"),
+      keys: this.db.query<{ key: string }, [number, string, number]>(
+        "SELECT key FROM cache WHERE substr(key, 1, ?) = ? AND (expires_at = 0 OR expires_at > ?)"
+      ),
+      count: this.db.query<{ total: number }, []>("SELECT COUNT(*) AS total FROM cache"),
+      trim: this.db.query("DELETE FROM cache WHERE key IN (SELECT key FROM cache ORDER BY written_at ASC LIMIT ?)"),
+      sweep: this.db.query("DELETE FROM cache WHERE expires_at > 0 AND expires_at <= ?"),
+    };
+
+    setInterval(() => this.statements.sweep.run(Date.now()), 60000);
+  }
+
+  public get<T>(key: string): T | null {
+    const row = this.statements.get.get(key);
+    if (!row) return null;
+    if (row.expires_at > 0 && row.expires_at <= Date.now()) {
+      this.statements.delete.run(key);
+      return null;
+    }
+    try {
+      const json = row.compressed
+        ? new TextDecoder().decode(Bun.gunzipSync(row.value as Uint8Array<ArrayBuffer>))
+        : String(row.value);
+      return JSON.parse(json);
+    } catch {
+      this.statements.delete.run(key);
+      return null;
+    }
+  }
+
+  public set(key: string, data: any, ttlSeconds = 0, tags: string[] = []): any {
+    if (key.includes("undefined") || key.includes("null")) {
+      log.warn(`Invalid cache key: ${key}`);
+      return data;
+    }
+    let json: string;
+    try {
+      json = JSON.stringify(data);
+    } catch {
+      log.warn(`value for ${key} is not serializable, skipping`);
+      return data;
+    }
+    const expiresAt = ttlSeconds > 0 ? Date.now() + ttlSeconds * 1000 : 0;
+    const compressed = json.length > COMPRESSION_THRESHOLD;
+    const value = compressed ? Bun.gzipSync(new TextEncoder().encode(json)) : json;
+    this.db.transaction(() => {
+      // Cleared explicitly, REPLACE doesn't reliably fire the cascade for the row it overwrites.
+      this.statements.clearTags.run(key);
+      this.statements.set.run(key, value, expiresAt, compressed ? 1 : 0, Date.now());
+      for (const tag of tags) this.statements.addTag.run(tag, key);
+    })();
+
+    if (this.maxEntries > 0) {
+      const { total } = this.statements.count.get()!;
+      if (total > this.maxEntries) this.statements.trim.run(total - this.maxEntries);
+    }
+    return data;
+  }
+
+  public delete(key: string): boolean {
+    return this.statements.delete.run(key).changes > 0;
+  }
+
+  public invalidateByPrefix(prefix: string): void {
+    this.statements.deletePrefix.run(prefix.length, prefix);
+  }
+
+  public invalidateByTag(tag: string): void {
+    this.statements.deleteTag.run(tag);
+  }
+
+  public keys(prefix = ""): string[] {
+    return this.statements.keys.all(prefix.length, prefix, Date.now()).map((row) => row.key);
+  }
+}
@@ -0,0 +1,143 @@
+import { Database } from "bun:sqlite";
+import fs from "fs";
+import path from "path";
+import { RespClient, type RespStoreOptions } from "./RespStore";
+import type { SqliteStoreOptions } from "./SqliteStore";
+
+/**
+ * Key/value storage with expiry for Hapta's own bookkeeping: refresh tokens,
+ * revocations and rate-limit counters. Unlike a CacheStore it never evicts,
+ * CacheSync neither flushes nor broadcasts it and it is not part of the cache
+ * stats. Failures are thrown instead of read as misses, so an unreachable
+ * store can't make a revoked token look valid.
+ */
+export interface StateStore {
+  get<T>(key: string): Promise<T | null>;
+  /** Stores `value` for `ttlSeconds`, 0 means no expiry. */
+  set(key: string, value: any, ttlSeconds: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  /** Deletes `key` and answers what it held. Of concurrent callers only one gets the value. */
+  take<T>(key: string): Promise<T | null>;
+}
+
+function expiresAt(ttlSeconds: number): number {
+  return ttlSeconds > 0 ? Date.now() + ttlSeconds * 1000 : 0;
+}
+
+function isExpired(expiresAt: number): boolean {
+  return expiresAt > 0 && expiresAt <= Date.now();
+}
+
+/** State kept in this process. Nothing is shared with other nodes or survives a restart. */
+export class MemoryStateStore implements StateStore {
+  private entries = new Map<string, { value: any; expiresAt: number }>();
+
+  constructor() {
+    setInterval(() => {
+      for (const [key, entry] of this.entries) if (isExpired(entry.expiresAt)) this.entries.delete(key);
+    }, 60000);
+  }
+
+  public async get<T>(key: string): Promise<T | null> {
+    const entry = this.entries.get(key);
+    if (!entry || isExpired(entry.expiresAt)) return null;
+    return entry.value;
+  }
+
+  public async set(key: string, value: any, ttlSeconds: number) {
+    this.entries.set(key, { value, expiresAt: expiresAt(ttlSeconds) });
+  }
+
+  public async delete(key: string) {
+    this.entries.delete(key);
+  }
+
+  public async take<T>(key: string): Promise<T | null> {
+    // Read and deleted without an await in between, so no other take sees the entry.
+    const entry = this.entries.get(key);
+    this.entries.delete(key);
+    return entry && !isExpired(entry.expiresAt) ? entry.value : null;
+  }
+}
+
+type StateRow = { value: string; expires_at: number };
+
+/** State kept in its own table of the sqlite cache file, shared by processes on the same machine. */
+export class SqliteStateStore implements StateStore {
+  private statements;
+
+  constructor(options: Pick<SqliteStoreOptions, "path"> = {}) {
+    const file = options.path ?? path.join(process.cwd(), ".hapta", "cache.sqlite");
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    const db = new Database(file, { create: true });
+    db.exec("PRAGMA journal_mode = WAL;");
+    db.exec(`CREATE TABLE IF NOT EXISTS state (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL,
+      expires_at INTEGER NOT NULL DEFAULT 0
+    )`);
+
+    this.statements = {
+      get: db.query<StateRow, [string]>("SELECT value, expires_at FROM state WHERE key = ?"),
+      set: db.query("INSERT OR REPLACE INTO state (key, value, expires_at) VALUES (?, ?, ?)"),
+      delete: db.query("DELETE FROM state WHERE key = ?"),
+      take: db.query<StateRow, [string]>("DELETE FROM state WHERE key = ? RETURNING value, expires_at"),
+      sweep: db.query("DELETE FROM state WHERE expires_at > 0 AND expires_at <= ?"),
+    };
+
+    setInterval(() => this.statements.sweep.run(Date.now()), 60000);
+  }
+
+  private read<T>(row: StateRow | null): T | null {
+    return row && !isExpired(row.expires_at) ? JSON.parse(row.value) : null;
+  }
+
+  public async get<T>(key: string): Promise<T | null> {
+    return this.read(this.statements.get.get(key));
+  }
+
+  public async set(key: string, value: any, ttlSeconds: number) {
+    this.statements.set.run(key, JSON.stringify(value), expiresAt(ttlSeconds));
+  }
+
+  public async delete(key: string) {
+    this.statements.delete.run(key);
+  }
+
+  public async take<T>(key: string): Promise<T | null> {
+    return this.read(this.statements.take.get(key));
+  }
+}
+
+/** State kept on a Redis-compatible server under `<keyPrefix>#state:`, shared by every node. `take` needs GETDEL (Redis 6.2+). */
+export class RespStateStore implements StateStore {
+  private client: RespClient;
+  private keyPrefix: string;
+
+  constructor(options: RespStoreOptions = {}) {
+    this.client = new RespClient(new URL(options.url ?? "redis://127.0.0.1:6379"));
+    // "#" never appears in a cache key, RespCacheStore leaves these alone when it scans.
+    this.keyPrefix = `${options.keyPrefix ?? "hapta:"}#state:`;
+  }
+
+  public async get<T>(key: string): Promise<T | null> {
+    const value = await this.client.command("GET", this.keyPrefix + key);
+    return typeof value === "string" ? JSON.parse(value) : null;
+  }
+
+  public async set(key: string, value: any, ttlSeconds: number) {
+    const args: (string | number)[] = ["SET", this.keyPrefix + key, JSON.stringify(value)];
+    const ttlMs = Math.round(ttlSeconds * 1000);
+    if (ttlMs > 0) args.push("PX", ttlMs);
+    await this.client.command(...args);
+  }
+
+  public async delete(key: string) {
+    await this.client.command("DEL", this.keyPrefix + key);
+  }
+
+  public async take<T>(key: string): Promise<T | null> {
+    const value = await this.client.command("GETDEL", this.keyPrefix + key);
+    return typeof value === "string" ? JSON.parse(value) : null;
+  }
+}
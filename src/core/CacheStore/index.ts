@@ -0,0 +1,72 @@
+import CacheHandler, { type CacheOptions } from "../CacheManager";
+import { SqliteCacheStore } from "./SqliteStore";
+import { RespCacheStore } from "./RespStore";
+import { NamespacedCacheStore } from "./NamespacedStore";
+import { MemoryStateStore, RespStateStore, SqliteStateStore, type StateStore } from "./StateStore";
+
+type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * What DatabaseService needs from a cache. Methods may answer synchronously
+ * (in-memory, sqlite) or asynchronously (network stores), callers always await.
+ */
+export interface CacheStore {
+  get<T>(key: string): MaybePromise<T | null>;
+  /** Stores `data` for `ttlSeconds` (0 means no expiry), `tags` let invalidateByTag find it later. */
+  set(key: string, data: any, ttlSeconds?: number, tags?: string[]): MaybePromise<unknown>;
+  delete(key: string): MaybePromise<boolean>;
+  invalidateByPrefix(prefix: string): MaybePromise<void>;
+  /** Removes every entry that was stored with `tag`. */
+  invalidateByTag(tag: string): MaybePromise<void>;
+  /** Keys currently held, optionally only those starting with `prefix`. */
+  keys(prefix?: string): MaybePromise<string[]>;
+  /** Optional adaptive TTL in milliseconds for a key that is about to be written. */
+  getDynamicTTL?(key: string): number;
+}
+
+export type CacheConfig = CacheOptions & {
+  /** Which backend holds the cache, defaults to "memory". */
+  store?: "memory" | "sqlite" | "resp";
+  /** sqlite: database file, defaults to .hapta/cache.sqlite. */
+  path?: string;
+  /** resp: redis:// URL of any Redis-compatible server, defaults to redis://127.0.0.1:6379. */
+  url?: string;
+  /** resp: namespace prepended to every key on the server, defaults to "hapta:". */
+  keyPrefix?: string;
+  /** Per-collection grace windows in seconds, see DatabaseOptions. */
+  staleWhileRevalidate?: Record<string, number>;
+};
+
+/** Builds the cache backend selected in `hapta.config.json`. */
+export function createCacheStore(options: CacheConfig = {}): CacheStore {
+  switch (options.store ?? "memory") {
+    case "sqlite":
+      return new SqliteCacheStore({ path: options.path, maxEntries: options.maxEntries });
+    case "resp":
+      return new RespCacheStore({ url: options.url, keyPrefix: options.keyPrefix });
+    case "memory":
+      return new CacheHandler(options);
+    default:
+      throw new Error(`Unknown cache store "${options.store}", expected "memory", "sqlite" or "resp"`);
+  }
+}
+
+/**
+ * Builds the StateStore that goes with the selected cache backend: the same
+ * sqlite file or RESP server, but its own table or keys.
+ */
+export function createStateStore(options: CacheConfig = {}): StateStore {
+  switch (options.store ?? "memory") {
+    case "sqlite":
+      return new SqliteStateStore({ path: options.path });
+    case "resp":
+      return new RespStateStore({ url: options.url, keyPrefix: options.keyPrefix });
+    case "memory":
+      return new MemoryStateStore();
+    default:
+      throw new Error(`Unknown cache store "${options.store}", expected "memory", "sqlite" or "resp"`);
+  }
+}
+
+export { CacheHandler, SqliteCacheStore, RespCacheStore, NamespacedCacheStore };
+export { MemoryStateStore, SqliteStateStore, RespStateStore, type StateStore };
@@ -0,0 +1,128 @@
+import net from "net";
+import fs from "fs";
+import type { CacheSyncMessage } from "../CacheManager";
+import type { CacheSyncTransport } from "./index";
+import { logger } from "../Logger";
+
+const log = logger.child({ component: "CacheSync" });
+
+/** Either a Unix socket path or a TCP address. */
+export type HubAddress = { path: string } | { host: string; port: number };
+
+const RECONNECT_MIN_MS = 250;
+const RECONNECT_MAX_MS = 10_000;
+
+/** Splits a stream into newline-delimited JSON messages. */
+function lineReader(onLine: (line: string) => void) {
+  let buffered = "";
+  return (chunk: Buffer) => {
+    buffered += chunk.toString();
+    let newline = buffered.indexOf("\n");
+    while (newline !== -1) {
+      const line = buffered.slice(0, newline);
+      buffered = buffered.slice(newline + 1);
+      if (line) onLine(line);
+      newline = buffered.indexOf("\n");
+    }
+  };
+}
+
+export type CacheSyncHub = { stop: () => void };
+
+/**
+ * A tiny relay: every line a node sends is written to every other connected
+ * node. Run it inside one Hapta instance (`serveHub`) or as its own process.
+ */
+export async function startCacheSyncHub(address: HubAddress): Promise<CacheSyncHub> {
+  const clients = new Set<net.Socket>();
+  const server = net.createServer((socket) => {
+    clients.add(socket);
+    socket.on("data", lineReader((line) => {
+      for (const client of clients) {
+        if (client !== socket) client.write(line + "\n");
+      }
+    }));
+    socket.on("close", () => clients.delete(socket));
+    socket.on("error", () => clients.delete(socket));
+  });
+
+  if ("path" in address && fs.existsSync(address.path)) {
+    // A stale socket file from a previous run would make listen() fail.
+    fs.unlinkSync(address.path);
+  }
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    if ("path" in address) server.listen(address.path, () => resolve());
+    else server.listen(address.port, address.host, () => resolve());
+  });
+  log.info(`hub listening on ${"path" in address ? address.path : `${address.host}:${address.port}`}`);
+
+  return {
+    stop() {
+      for (const client of clients) client.destroy();
+      server.close();
+    },
+  };
+}
+
+/** Connects to a hub over a Unix socket or TCP, reconnecting with backoff whenever the link drops. */
+export class HubTransport implements CacheSyncTransport {
+  private socket?: net.Socket;
+  private connected = false;
+  private stopped = false;
+  private hasConnectedBefore = false;
+  private reconnectDelay = RECONNECT_MIN_MS;
+  private reconnectTimer?: Timer;
+  private handlers?: { onMessage: (msg: CacheSyncMessage) => void; onReconnect: () => void };
+
+  constructor(private address: HubAddress) {}
+
+  public async start(handlers: { onMessage: (msg: CacheSyncMessage) => void; onReconnect: () => void }) {
+    this.handlers = handlers;
+    this.stopped = false;
+    this.connect();
+  }
+
+  private connect() {
+    const socket = "path" in this.address
+      ? net.createConnection({ path: this.address.path })
+      : net.createConnection({ host: this.address.host, port: this.address.port });
+    this.socket = socket;
+
+    socket.on("connect", () => {
+      this.connected = true;
+      this.reconnectDelay = RECONNECT_MIN_MS;
+      if (this.hasConnectedBefore) this.handlers?.onReconnect();
+      this.hasConnectedBefore = true;
+    });
+    socket.on("data", lineReader((line) => {
+      try {
+        this.handlers?.onMessage(JSON.parse(line));
+      } catch {
+        log.warn("dropped malformed hub message");
+      }
+    }));
+    socket.on("error", () => {
+      // "close" always follows, reconnecting happens there.
+    });
+    socket.on("close", () => {
+      this.connected = false;
+      if (this.stopped) return;
+      this.reconnectTimer = setTimeout(() => this.connect(), this.reconnectDelay);
+      this.reconnectDelay = Math.min(this.reconnectDelay * 2, RECONNECT_MAX_MS);
+    });
+  }
+
+  public send(msg: CacheSyncMessage) {
+    // Messages sent while disconnected are lost, peers notice the sequence gap and flush.
+    if (!this.connected || !this.socket) return;
+    this.socket.write(JSON.stringify(msg) + "\n");
+  }
+
+  public async stop() {
+    this.stopped = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.socket?.destroy();
+    this.socket = undefined;
+  }
+}
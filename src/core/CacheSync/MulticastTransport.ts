@@ -0,0 +1,64 @@
+import dgram from "dgram";
+import type { CacheSyncMessage } from "../CacheManager";
+import type { CacheSyncTransport } from "./index";
+import { logger } from "../Logger";
+
+const log = logger.child({ component: "CacheSync" });
+
+/** Stay below the usual 64KB UDP limit with room for headers. */
+const MAX_DATAGRAM_BYTES = 60 * 1024;
+
+export type MulticastOptions = {
+  group: string;
+  port: number;
+  /** Multicast hop limit, defaults to 1 (same subnet). */
+  ttl?: number;
+  /** Local interface address to join the group on. */
+  interface?: string;
+};
+
+/**
+ * Sends every message to a UDP multicast group. There is no connection to
+ * lose, so dropped datagrams are caught by CacheSync's sequence numbers.
+ */
+export class MulticastTransport implements CacheSyncTransport {
+  private socket?: dgram.Socket;
+
+  constructor(private options: MulticastOptions) {}
+
+  public async start({ onMessage }: { onMessage: (msg: CacheSyncMessage) => void }) {
+    const socket = dgram.createSocket({ type: "udp4", reuseAddr: true });
+    socket.on("message", (buffer) => {
+      try {
+        onMessage(JSON.parse(buffer.toString()));
+      } catch {
+        log.warn("dropped malformed multicast datagram");
+      }
+    });
+    socket.on("error", (error) => log.error("multicast socket error", { error }));
+
+    await new Promise<void>((resolve) => socket.bind(this.options.port, () => resolve()));
+    socket.addMembership(this.options.group, this.options.interface);
+    socket.setMulticastTTL(this.options.ttl ?? 1);
+    // Other nodes may run on this host too, our own echoes are filtered by node ID.
+    socket.setMulticastLoopback(true);
+    this.socket = socket;
+  }
+
+  public send(msg: CacheSyncMessage) {
+    if (!this.socket) return;
+    let payload = Buffer.from(JSON.stringify(msg));
+    if (payload.length > MAX_DATAGRAM_BYTES && msg.action === "set") {
+      // Too big for one datagram, peers drop their copy instead and refetch on their next miss.
+      const { data, expiresAt, ...rest } = msg;
+      payload = Buffer.from(JSON.stringify({ ...rest, action: "delete" }));
+    }
+    this.socket.send(payload, this.options.port, this.options.group);
+  }
+
+  public async stop() {
+    const socket = this.socket;
+    this.socket = undefined;
+    if (socket) await new Promise<void>((resolve) => socket.close(() => resolve()));
+  }
+}
@@ -0,0 +1,149 @@
+import type CacheHandler from "../CacheManager";
+import type { CacheSyncMessage } from "../CacheManager";
+import { MulticastTransport } from "./MulticastTransport";
+import { HubTransport, startCacheSyncHub, type CacheSyncHub } from "./HubTransport";
+import { logger } from "../Logger";
+
+const log = logger.child({ component: "CacheSync" });
+
+/**
+ * Moves cache sync messages between nodes. Transports only deliver messages,
+ * ordering checks and partition recovery are handled by CacheSync.
+ */
+export interface CacheSyncTransport {
+  /**
+   * Starts delivering incoming messages to `onMessage`.
+   * `onReconnect` fires whenever the link comes back after dropping, messages sent meanwhile are lost.
+   */
+  start(handlers: { onMessage: (msg: CacheSyncMessage) => void; onReconnect: () => void }): Promise<void>;
+  send(msg: CacheSyncMessage): void;
+  stop(): Promise<void>;
+}
+
+export type CacheSyncConfig =
+  | ({ transport: "multicast"; group?: string; port?: number; ttl?: number; interface?: string } & CacheSyncTuning)
+  | ({ transport: "unix"; path: string; serveHub?: boolean } & CacheSyncTuning)
+  | ({ transport: "tcp"; host?: string; port: number; serveHub?: boolean } & CacheSyncTuning);
+
+type CacheSyncTuning = {
+  /** How often an idle node says it's alive, defaults to 5 seconds. */
+  heartbeatMs?: number;
+  /** Silence from a peer for longer than this is treated as a partition, defaults to 3 heartbeats. */
+  peerTimeoutMs?: number;
+  /** Prefixes flushed locally after a partition, defaults to everything. */
+  recoveryPrefixes?: string[];
+};
+
+type PeerState = { seq: number; lastSeen: number };
+
+export class CacheSync {
+  private seq = 0;
+  private peers = new Map<string, PeerState>();
+  private heartbeat?: Timer;
+  private heartbeatMs: number;
+  private peerTimeoutMs: number;
+  private recoveryPrefixes: string[];
+
+  constructor(
+    private cache: CacheHandler,
+    private transport: CacheSyncTransport,
+    options: CacheSyncTuning = {}
+  ) {
+    this.heartbeatMs = options.heartbeatMs ?? 5000;
+    this.peerTimeoutMs = options.peerTimeoutMs ?? this.heartbeatMs * 3;
+    this.recoveryPrefixes = options.recoveryPrefixes ?? [""];
+  }
+
+  public async start() {
+    await this.transport.start({
+      onMessage: (msg) => this.receive(msg),
+      onReconnect: () => this.recover("transport reconnected"),
+    });
+    this.cache.setBroadcastCallback((msg) => this.send(msg));
+    this.heartbeat = setInterval(() => {
+      this.send({ action: "heartbeat", key: "", source: this.cache.nodeId });
+    }, this.heartbeatMs);
+  }
+
+  public async stop() {
+    if (this.heartbeat) clearInterval(this.heartbeat);
+    this.cache.setBroadcastCallback(undefined);
+    await this.transport.stop();
+  }
+
+  private send(msg: CacheSyncMessage) {
+    try {
+      this.transport.send({ ...msg, seq: ++this.seq });
+    } catch (error) {
+      log.error("send failed", { error });
+    }
+  }
+
+  private receive(msg: CacheSyncMessage) {
+    if (!msg || msg.source === this.cache.nodeId) return;
+
+    const now = Date.now();
+    const peer = this.peers.get(msg.source);
+    if (peer && typeof msg.seq === "number") {
+      if (now - peer.lastSeen > this.peerTimeoutMs) {
+        this.recover(`peer ${msg.source} was silent for ${now - peer.lastSeen}ms`);
+      } else if (msg.seq > peer.seq + 1) {
+        this.recover(`missed ${msg.seq - peer.seq - 1} message(s) from ${msg.source}`);
+      }
+      // A lower sequence number means the peer restarted, nothing to recover from that.
+    }
+    this.peers.set(msg.source, { seq: msg.seq ?? 0, lastSeen: now });
+
+    if (msg.action !== "heartbeat") {
+      this.cache.applySyncMessage(msg);
+    }
+  }
+
+  /** We can't know which messages were lost, so everything under the recovery prefixes is dropped locally. */
+  private recover(reason: string) {
+    log.warn(`${reason}, flushing ${this.recoveryPrefixes.map((p) => p || "*").join(", ")}`);
+    for (const prefix of this.recoveryPrefixes) {
+      this.cache.invalidateByPrefix(prefix, true);
+    }
+  }
+}
+
+/**
+ * Builds the transport named in the config, starts a hub in this process when
+ * `serveHub` is set and begins syncing `cache` with the other nodes.
+ */
+export async function startCacheSync(cache: CacheHandler, options: CacheSyncConfig) {
+  let hub: CacheSyncHub | undefined;
+  let transport: CacheSyncTransport;
+
+  switch (options.transport) {
+    case "multicast":
+      transport = new MulticastTransport({
+        group: options.group ?? "239.255.72.80",
+        port: options.port ?? 41234,
+        ttl: options.ttl,
+        interface: options.interface,
+      });
+      break;
+    case "unix":
+      if (options.serveHub) hub = await startCacheSyncHub({ path: options.path });
+      transport = new HubTransport({ path: options.path });
+      break;
+    case "tcp":
+      if (options.serveHub) hub = await startCacheSyncHub({ host: options.host ?? "0.0.0.0", port: options.port });
+      transport = new HubTransport({ host: options.host ?? "127.0.0.1", port: options.port });
+      break;
+  }
+
+  const sync = new CacheSync(cache, transport, options);
+  await sync.start();
+  return {
+    sync,
+    async stop() {
+      await sync.stop();
+      hub?.stop();
+    },
+  };
+}
+
+export { MulticastTransport, HubTransport, startCacheSyncHub };
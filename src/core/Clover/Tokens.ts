@@ -0,0 +1,236 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import type Pocketbase from "pocketbase";
+import type { ClientResponseError } from "pocketbase";
+import type { StateStore } from "../CacheStore";
+import { CloverError } from "./errors";
+
+export type TokenConfig = {
+  /** Access token lifetime in seconds, defaults to 15 minutes. */
+  accessTokenTtl?: number;
+  /** Refresh token lifetime in seconds, defaults to 30 days. */
+  refreshTokenTtl?: number;
+  /**
+   * Signing secrets by key ID. New tokens are signed with `activeKid`, tokens are
+   * verified with the key their `kid` header names, so old keys keep working
+   * until they are removed. Defaults to `{ default: JWT_SECRET }`.
+   */
+  keys?: Record<string, string>;
+  /** Defaults to the first entry of `keys`. */
+  activeKid?: string;
+  /** Where refresh tokens and revocations live, defaults to "cache" (the state store next to the cache backend). */
+  store?: "cache" | "pocketbase";
+  /** pocketbase: collection with `key` (text, unique), `value` (json) and `expires` (date) fields. */
+  collection?: string;
+};
+
+/** Key/value storage with expiry for refresh tokens and the revocation list. */
+export interface TokenStore {
+  get<T>(key: string): Promise<T | null>;
+  set(key: string, value: any, ttlSeconds: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  /** Deletes `key` and answers what it held. Of concurrent callers only one gets the value. */
+  take<T>(key: string): Promise<T | null>;
+}
+
+/** Keeps token state in a StateStore under `auth:`. Pick sqlite or resp if it has to survive restarts. */
+export class StateTokenStore implements TokenStore {
+  constructor(private state: StateStore, private prefix = "auth:") {}
+
+  public get<T>(key: string): Promise<T | null> {
+    return this.state.get<T>(this.prefix + key);
+  }
+
+  public set(key: string, value: any, ttlSeconds: number) {
+    return this.state.set(this.prefix + key, value, ttlSeconds);
+  }
+
+  public delete(key: string) {
+    return this.state.delete(this.prefix + key);
+  }
+
+  public take<T>(key: string): Promise<T | null> {
+    return this.state.take<T>(this.prefix + key);
+  }
+}
+
+/**
+ * Keeps token state in a PocketBase collection, expired rows are ignored and
+ * replaced on write. Requests opt out of the SDK's auto-cancellation, which
+ * would otherwise abort concurrent lookups of the same key.
+ */
+export class PocketBaseTokenStore implements TokenStore {
+  constructor(private pb: Pocketbase, private collection = "hapta_tokens") {}
+
+  private async find(key: string) {
+    return this.pb
+      .collection(this.collection)
+      .getFirstListItem(this.pb.filter("key = {:key}", { key }), { requestKey: null })
+      .catch(() => null);
+  }
+
+  public async get<T>(key: string): Promise<T | null> {
+    const row = await this.find(key);
+    if (!row || new Date(row.expires).getTime() < Date.now()) return null;
+    return row.value as T;
+  }
+
+  public async set(key: string, value: any, ttlSeconds: number) {
+    const data = { key, value, expires: new Date(Date.now() + ttlSeconds * 1000).toISOString() };
+    const row = await this.find(key);
+    if (row) await this.pb.collection(this.collection).update(row.id, data, { requestKey: null });
+    else await this.pb.collection(this.collection).create(data, { requestKey: null });
+  }
+
+  public async delete(key: string) {
+    const row = await this.find(key);
+    if (row) await this.pb.collection(this.collection).delete(row.id, { requestKey: null });
+  }
+
+  /** PocketBase deletes a row once, so only the caller whose delete went through gets the value. */
+  public async take<T>(key: string): Promise<T | null> {
+    const row = await this.find(key);
+    if (!row) return null;
+    try {
+      await this.pb.collection(this.collection).delete(row.id, { requestKey: null });
+    } catch (error) {
+      if ((error as ClientResponseError).status === 404) return null;
+      throw error;
+    }
+    return new Date(row.expires).getTime() < Date.now() ? null : (row.value as T);
+  }
+}
+
+export type TokenPair = {
+  token: string;
+  refreshToken: string;
+  /** When `token` stops being accepted. */
+  expiresAt: Date;
+};
+
+/** What every access token carries on top of the caller's claims. */
+type SessionClaims = { jti: string; sid: string; exp: number; iat: number };
+
+type RefreshEntry<C> = { sid: string; claims: C };
+
+const DEFAULT_ACCESS_TTL = 15 * 60;
+const DEFAULT_REFRESH_TTL = 30 * 24 * 60 * 60;
+
+const hash = (token: string) => crypto.createHash("sha256").update(token).digest("hex");
+
+const keys = {
+  refresh: (token: string) => `refresh:${hash(token)}`,
+  /** Left behind by a rotation, names the session a reused refresh token belongs to. */
+  usedRefresh: (token: string) => `used:${hash(token)}`,
+  revokedToken: (jti: string) => `revoked:jti:${jti}`,
+  revokedSession: (sid: string) => `revoked:sid:${sid}`,
+};
+
+/**
+ * Issues short-lived access tokens plus rotating refresh tokens.
+ *
+ * Every login starts a session (`sid`). Each refresh hands out a new pair and
+ * uses up the old refresh token; presenting a used one again, or two refreshes
+ * racing for the same one, means it leaked, so the whole session is revoked. Revoked tokens and sessions stay on
+ * the revocation list until they would have expired anyway.
+ */
+export class TokenService<C extends object = Record<string, any>> {
+  private accessTtl: number;
+  private refreshTtl: number;
+  private keys: Map<string, string>;
+  private activeKid: string;
+
+  constructor(config: TokenConfig, fallbackSecret: string, private store: TokenStore) {
+    this.accessTtl = config.accessTokenTtl ?? DEFAULT_ACCESS_TTL;
+    this.refreshTtl = config.refreshTokenTtl ?? DEFAULT_REFRESH_TTL;
+    // A Map, so a `kid` header like "__proto__" or "constructor" can't resolve to an inherited value.
+    this.keys = new Map(Object.entries(config.keys && Object.keys(config.keys).length > 0 ? config.keys : { default: fallbackSecret }));
+    this.activeKid = config.activeKid ?? [...this.keys.keys()][0]!;
+    if (!this.keys.has(this.activeKid)) throw new Error(`auth.activeKid "${this.activeKid}" is not one of auth.keys`);
+  }
+
+  /** Starts a new session for `claims`. */
+  public issue(claims: C): Promise<TokenPair> {
+    return this.issueForSession(claims, crypto.randomUUID());
+  }
+
+  /** Verifies signature, expiry and the revocation list, returning the claims or why they were refused. */
+  public async verify(token: string): Promise<(C & SessionClaims) | CloverError> {
+    const decoded = jwt.decode(token, { complete: true });
+    const kid = decoded?.header?.kid ?? "";
+    const secret = this.keys.get(kid);
+    if (!secret) return new CloverError("invalid_token", kid ? `Unknown signing key "${kid}"` : "Token has no key ID");
+
+    let claims: C & SessionClaims;
+    try {
+      claims = jwt.verify(token, secret, { algorithms: ["HS256"] }) as C & SessionClaims;
+    } catch (error) {
+      if (error instanceof jwt.TokenExpiredError) return new CloverError("token_expired", "Access token expired", 401);
+      return new CloverError("invalid_token", (error as Error).message, 401);
+    }
+    if (!claims.jti || !claims.sid) return new CloverError("invalid_token", "Token is missing its session claims", 401);
+
+    const [tokenRevoked, sessionRevoked] = await Promise.all([
+      this.store.get(keys.revokedToken(claims.jti)),
+      this.store.get(keys.revokedSession(claims.sid)),
+    ]);
+    if (tokenRevoked || sessionRevoked) return new CloverError("token_revoked", "Token was revoked", 401);
+    return claims;
+  }
+
+  /**
+   * Trades a refresh token for a new pair in the same session. A refresh token
+   * that was already used revokes the session and fails with `refresh_reused`.
+   * An error from `accept` refuses the token without using it up.
+   */
+  public async rotate(
+    refreshToken: string,
+    accept?: (claims: C) => CloverError | undefined
+  ): Promise<{ claims: C; pair: TokenPair } | CloverError> {
+    const entry = await this.store.get<RefreshEntry<C>>(keys.refresh(refreshToken));
+    if (!entry) {
+      const usedBy = await this.store.get<string>(keys.usedRefresh(refreshToken));
+      if (usedBy) return this.reused(usedBy);
+      return new CloverError("invalid_token", "Unknown or expired refresh token", 401);
+    }
+    if (await this.store.get(keys.revokedSession(entry.sid))) {
+      return new CloverError("token_revoked", "Session was revoked", 401);
+    }
+    const refused = accept?.(entry.claims);
+    if (refused) return refused;
+
+    // Marked before the entry is taken, so a racing refresh finds either the entry or the mark.
+    await this.store.set(keys.usedRefresh(refreshToken), entry.sid, this.refreshTtl);
+    // Only one concurrent refresh takes the entry, the others are treated as reuse.
+    if (!(await this.store.take(keys.refresh(refreshToken)))) return this.reused(entry.sid);
+    return { claims: entry.claims, pair: await this.issueForSession(entry.claims, entry.sid) };
+  }
+
+  /** Logs out one access token, until it would have expired. */
+  public async revokeToken(claims: SessionClaims) {
+    const remaining = Math.max(1, claims.exp - Math.floor(Date.now() / 1000));
+    await this.store.set(keys.revokedToken(claims.jti), true, remaining);
+  }
+
+  /** Logs out every access and refresh token of a session. */
+  public async revokeSession(sid: string) {
+    await this.store.set(keys.revokedSession(sid), true, this.refreshTtl);
+  }
+
+  private async reused(sid: string): Promise<CloverError> {
+    await this.revokeSession(sid);
+    return new CloverError("refresh_reused", "Refresh token reuse detected, the session was revoked", 401);
+  }
+
+  private async issueForSession(claims: C, sid: string): Promise<TokenPair> {
+    const { exp, iat, jti, ...rest } = claims as C & Partial<SessionClaims>;
+    const token = jwt.sign({ ...rest, jti: crypto.randomUUID(), sid }, this.keys.get(this.activeKid)!, {
+      algorithm: "HS256",
+      expiresIn: this.accessTtl,
+      keyid: this.activeKid,
+    });
+    const refreshToken = crypto.randomBytes(32).toString("base64url");
+    await this.store.set(keys.refresh(refreshToken), { sid, claims: rest } satisfies RefreshEntry<any>, this.refreshTtl);
+    return { token, refreshToken, expiresAt: new Date(Date.now() + this.accessTtl * 1000) };
+  }
+}
@@ -0,0 +1,29 @@
+export type CloverErrorCode =
+  | "invalid_request" // missing or malformed input, nothing was sent to Clover
+  | "invalid_credentials" // Clover rejected the credentials, code or token
+  | "mfa_required" // the password was right, finish with ChallengeMfa + { type: "mfa" }
+  | "invalid_token" // a Hapta token failed verification
+  | "token_expired" // the access or refresh token is past its expiry
+  | "token_revoked" // the token, or the session it belongs to, was logged out
+  | "refresh_reused" // a refresh token was used twice, its whole session is now revoked
+  | "tenant_mismatch" // the token belongs to another tenant than the request's tenantid header
+  | "network_error" // Clover could not be reached
+  | "server_error" // Clover answered with a 5xx
+  | "invalid_response"; // Clover answered with something we could not read
+
+export class CloverError extends Error {
+  constructor(
+    public code: CloverErrorCode,
+    message: string,
+    public status?: number,
+    public details?: Record<string, any>
+  ) {
+    super(message);
+    this.name = "CloverError";
+  }
+
+  /** Keeps the error readable when a principal is sent back with `ctx.json()`. */
+  toJSON() {
+    return { code: this.code, message: this.message, ...(this.status && { status: this.status }), ...(this.details && { details: this.details }) };
+  }
+}
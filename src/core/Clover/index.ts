@@ -0,0 +1,345 @@
+import type { AuthenticatedPrincipal, Principal } from "../../../helpers/HTTP/Request/Context";
+import { CloverError, type CloverErrorCode } from "./errors";
+import type { TokenService } from "./Tokens";
+import { cloverCallsTotal } from "../Metrics";
+
+export { CloverError, type CloverErrorCode } from "./errors";
+export { TokenService, StateTokenStore, PocketBaseTokenStore, type TokenConfig, type TokenStore, type TokenPair } from "./Tokens";
+
+// --- Request models ---
+
+export type PasswordAuthOptions = {
+  type: "passwordAuth";
+  emailOrUsername: string;
+  password: string;
+};
+
+export type MfaAuthOptions = {
+  type: "mfa";
+  userId: string; // MFA follows a password login that answered with `mfa_required`
+  mfaCode: string;
+};
+
+export type OAuthAuthOptions = {
+  type: "oauth";
+  code: string;
+  redirectUri: string | null;
+  authenticated_id: string;
+  accessToken?: string; // token received from Clover OAuth flow
+};
+
+export type OtpAuthOptions = {
+  type: "otp";
+  email: string;
+  otpCode: string;
+};
+
+export type AuthOptions = PasswordAuthOptions | MfaAuthOptions | OtpAuthOptions | OAuthAuthOptions;
+
+export type RegisterOptions = {
+  record: {
+    email: string;
+    username: string;
+    password: string;
+    [field: string]: any;
+  };
+};
+
+// --- Response models ---
+
+/** The user record Clover answers with after a successful login or signup. */
+export type CloverUserRecord = {
+  id: string;
+  username?: string;
+  email?: string;
+  avatar?: string;
+  created?: string;
+  Roles?: string[];
+  clover_group_assigned_To?: string;
+};
+
+export type CloverTenantRole = { name: string; security_level: number };
+
+/** The tenant as `GET /tenants/:id` returns it. */
+export type CloverTenant = {
+  id: string;
+  Tenant_Roles?: CloverTenantRole[] | CloverTenantRole;
+  expand?: { Tenant_Groups?: { Users?: string[] } };
+  [field: string]: any;
+};
+
+/** Claims of the tokens Hapta signs for authenticated principals. */
+export type CloverTokenClaims = {
+  id: string;
+  clover_assigned_id: string;
+  Roles: string[];
+  Group: string;
+  username?: string;
+  avatar?: string;
+  created?: string;
+};
+
+/** What every failed flow resolves to, `error` says why. */
+export type FailedPrincipal = { isAuthenticated: false; error: CloverError };
+
+export type CloverClientOptions = {
+  serverUrl: string;
+  secret: string;
+  tenantId: string;
+  /** Issues, verifies and revokes the tokens handed to authenticated principals. */
+  tokens: TokenService<CloverTokenClaims>;
+  /** Swappable for tests, e.g. to point at a local mock Clover server or FakeClover. */
+  fetch?: (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>;
+};
+
+const ENDPOINTS = {
+  tenant: (id: string) => `/tenants/${encodeURIComponent(id)}`,
+  signup: "/auth/signup",
+  token: "/oauth/token",
+  otpRequest: "/auth/otp",
+  mfaChallenge: "/auth/mfa/challenge",
+} as const;
+
+function fail(code: CloverErrorCode, message: string, status?: number, details?: Record<string, any>): FailedPrincipal {
+  return { isAuthenticated: false, error: new CloverError(code, message, status, details) };
+}
+
+/**
+ * Talks to a Clover server on behalf of one tenant. Login flows always resolve
+ * to a `Principal`: authenticated with a signed token, or unauthenticated with
+ * a typed `CloverError` explaining why. Only `load` throws.
+ *
+ * The PascalCase members are what handlers reach through `ctx.services.Clover`.
+ */
+export class CloverClient {
+  private fetcher: NonNullable<CloverClientOptions["fetch"]>;
+  private userAgent?: string;
+
+  private constructor(private options: CloverClientOptions, public readonly tenant: CloverTenant) {
+    this.fetcher = options.fetch ?? fetch;
+  }
+
+  /** Fetches the tenant and returns a client bound to it. Throws a CloverError when that fails. */
+  public static async load(options: CloverClientOptions): Promise<CloverClient> {
+    const endpoint = "/tenants/:id";
+    try {
+      const client = await CloverClient.fetchTenant(options);
+      cloverCallsTotal.inc({ endpoint, outcome: "success" });
+      return client;
+    } catch (error) {
+      cloverCallsTotal.inc({ endpoint, outcome: error instanceof CloverError ? error.code : "invalid_response" });
+      throw error;
+    }
+  }
+
+  private static async fetchTenant(options: CloverClientOptions): Promise<CloverClient> {
+    const fetcher = options.fetch ?? fetch;
+    let res: Response;
+    try {
+      res = await fetcher(`${options.serverUrl}${ENDPOINTS.tenant(options.tenantId)}`, {
+        headers: { Authorization_Secret: options.secret },
+      });
+    } catch (error) {
+      throw new CloverError("network_error", `Could not reach Clover at ${options.serverUrl}: ${error}`);
+    }
+    if (!res.ok) {
+      throw new CloverError(res.status >= 500 ? "server_error" : "invalid_request", `Failed to fetch tenant data: ${res.status} ${res.statusText}`, res.status);
+    }
+    return new CloverClient(options, await res.json());
+  }
+
+  public get Tenant_ID(): string {
+    return this.tenant.id;
+  }
+
+  public get Authorized_Users(): string[] {
+    return this.tenant.expand?.Tenant_Groups?.Users || [];
+  }
+
+  public get Roles(): CloverTenantRole[] {
+    const roles = this.tenant.Tenant_Roles;
+    if (!roles) return [];
+    return Array.isArray(roles) ? roles : [roles];
+  }
+
+  /** A view of this client that forwards the caller's User-Agent to Clover, one per request. */
+  public forRequest(headers: Headers): CloverClient {
+    const scoped: CloverClient = Object.create(this);
+    scoped.userAgent = headers.get("User-Agent") ?? undefined;
+    return scoped;
+  }
+
+  /** The highest security level among the tenant roles the user holds, 0 without any. */
+  public highestClearance(roles: string[] = []): number {
+    return this.Roles.filter((role) => roles.includes(role.name)).reduce((max, role) => Math.max(max, Number(role.security_level) || 0), 0);
+  }
+
+  public async Register(data: RegisterOptions): Promise<Principal> {
+    const { email, username, password } = data?.record ?? ({} as RegisterOptions["record"]);
+    if (!email || !password || !username) return fail("invalid_request", "Missing email username or password");
+
+    const result = await this.post(ENDPOINTS.signup, { ...data });
+    if ("error" in result) return result;
+    const record: CloverUserRecord | undefined = result.body.AuthenticatedModal ?? result.body.record;
+    if (!record?.id) return fail("invalid_response", "Clover signup answered without a user record");
+    return await this.principalFor(record);
+  }
+
+  public async Authenticate(options: AuthOptions): Promise<Principal> {
+    const missing = this.missingFields(options);
+    if (missing) return fail("invalid_request", `Missing ${missing} for ${options?.type ?? "unknown"} authentication`);
+
+    const body: Record<string, any> = { type: options.type };
+    switch (options.type) {
+      case "passwordAuth":
+        Object.assign(body, { emailOrUsername: options.emailOrUsername, password: options.password });
+        break;
+      case "oauth":
+        Object.assign(body, {
+          code: options.code,
+          redirectUri: options.redirectUri,
+          client_secret: this.options.secret,
+          authenticated_id: options.authenticated_id,
+        });
+        break;
+      case "otp":
+        Object.assign(body, { email: options.email, otpCode: options.otpCode });
+        break;
+      case "mfa":
+        Object.assign(body, { userId: options.userId, mfaCode: options.mfaCode });
+        break;
+    }
+
+    const result = await this.post(ENDPOINTS.token, body);
+    if ("error" in result) return result;
+    if (result.body.mfa_required) {
+      return fail("mfa_required", "Multi-factor authentication required", 401, { userId: result.body.userId });
+    }
+    const record: CloverUserRecord | undefined = result.body.AuthenticatedModal;
+    if (!record?.id) return fail("invalid_response", "Clover answered without a user record");
+    return await this.principalFor(record);
+  }
+
+  /** Asks Clover to email a one-time code, finish with `Authenticate({ type: "otp" })`. */
+  public async RequestOtp(email: string): Promise<{ sent: true } | FailedPrincipal> {
+    if (!email) return fail("invalid_request", "Missing email");
+    const result = await this.post(ENDPOINTS.otpRequest, { email });
+    return "error" in result ? result : { sent: true };
+  }
+
+  /** Sends the MFA code for a user whose login answered `mfa_required`, finish with `Authenticate({ type: "mfa" })`. */
+  public async ChallengeMfa(userId: string): Promise<{ sent: true } | FailedPrincipal> {
+    if (!userId) return fail("invalid_request", "Missing userId");
+    const result = await this.post(ENDPOINTS.mfaChallenge, { userId });
+    return "error" in result ? result : { sent: true };
+  }
+
+  /** Checks a token Hapta signed, locally: signature, expiry, key ID and the revocation list. */
+  public async Verify(token: string): Promise<Principal> {
+    const claims = await this.options.tokens.verify(token);
+    if (claims instanceof CloverError) return { isAuthenticated: false, error: claims };
+    return this.toPrincipal(claims, { token, sessionId: claims.sid, expiresAt: new Date(claims.exp * 1000) });
+  }
+
+  /**
+   * Trades a refresh token for a new token pair, see TokenService.rotate for reuse
+   * detection. Tokens issued for another tenant are refused and stay unused.
+   */
+  public async Refresh(refreshToken: string): Promise<Principal> {
+    if (!refreshToken) return fail("invalid_request", "Missing refreshToken");
+    const result = await this.options.tokens.rotate(refreshToken, (claims) =>
+      claims.clover_assigned_id === this.tenant.id
+        ? undefined
+        : new CloverError("tenant_mismatch", "Refresh token was issued for another tenant", 401)
+    );
+    if (result instanceof CloverError) return { isAuthenticated: false, error: result };
+    return this.toPrincipal(result.claims, result.pair);
+  }
+
+  /** Ends the session the access token belongs to, its refresh tokens stop working too. */
+  public async Logout(token: string): Promise<{ loggedOut: true } | FailedPrincipal> {
+    const claims = await this.options.tokens.verify(token);
+    if (claims instanceof CloverError) return { isAuthenticated: false, error: claims };
+    await this.options.tokens.revokeToken(claims);
+    await this.options.tokens.revokeSession(claims.sid);
+    return { loggedOut: true };
+  }
+
+  private async principalFor(record: CloverUserRecord): Promise<AuthenticatedPrincipal> {
+    const claims: CloverTokenClaims = {
+      id: record.id,
+      clover_assigned_id: this.tenant.id,
+      Roles: record.Roles ?? [],
+      Group: record.clover_group_assigned_To ?? "",
+      username: record.username,
+      avatar: record.avatar,
+      created: record.created,
+    };
+    const pair = await this.options.tokens.issue(claims);
+    return { ...record, ...this.toPrincipal(claims, pair) };
+  }
+
+  private toPrincipal(
+    claims: CloverTokenClaims,
+    session: { token: string; refreshToken?: string; expiresAt: Date; sessionId?: string }
+  ): AuthenticatedPrincipal {
+    return {
+      isAuthenticated: true,
+      id: claims.id,
+      ...session,
+      Roles: claims.Roles ?? [],
+      username: claims.username ?? "",
+      avatar: claims.avatar ?? "",
+      highest_clearance: this.highestClearance(claims.Roles),
+      createdAt: new Date(claims.created ?? 0),
+      clover_group_assigned_To: claims.Group,
+      clover_assigned_id: claims.clover_assigned_id,
+    };
+  }
+
+  private missingFields(options: AuthOptions): string | undefined {
+    const required: Record<AuthOptions["type"], string[]> = {
+      passwordAuth: ["emailOrUsername", "password"],
+      oauth: ["code", "authenticated_id"],
+      otp: ["email", "otpCode"],
+      mfa: ["userId", "mfaCode"],
+    };
+    const fields = required[options?.type];
+    if (!fields) return "a supported type";
+    const missing = fields.filter((field) => !(options as Record<string, any>)[field]);
+    return missing.length > 0 ? missing.join(", ") : undefined;
+  }
+
+  /** POSTs to Clover with the tenant credentials, mapping every failure to a FailedPrincipal. */
+  private async post(endpoint: string, body: Record<string, any>): Promise<{ body: any } | FailedPrincipal> {
+    const result = await this.send(endpoint, body);
+    cloverCallsTotal.inc({ endpoint, outcome: "error" in result ? result.error.code : "success" });
+    return result;
+  }
+
+  private async send(endpoint: string, body: Record<string, any>): Promise<{ body: any } | FailedPrincipal> {
+    let res: Response;
+    try {
+      res = await this.fetcher(`${this.options.serverUrl}${endpoint}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization_Secret: this.options.secret,
+          tenantid: this.options.tenantId,
+          "User-Agent": this.userAgent || "",
+        },
+        body: JSON.stringify({ Tenant_Id: this.tenant.id, Secret: this.options.secret, ...body }),
+      });
+    } catch (error) {
+      return fail("network_error", `Could not reach Clover: ${error}`);
+    }
+
+    const json = await res.json().catch(() => undefined);
+    if (res.status >= 500) return fail("server_error", json?.message ?? "Clover failed to answer", res.status);
+    if (!res.ok) {
+      return fail(res.status === 400 ? "invalid_request" : "invalid_credentials", json?.message ?? "Authentication failed", res.status);
+    }
+    if (json === undefined) return fail("invalid_response", "Clover answered with a non-JSON body", res.status);
+    return { body: json };
+  }
+}
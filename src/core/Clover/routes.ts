@@ -0,0 +1,29 @@
+import type Context from "../../../helpers/HTTP/Request/Context";
+
+/**
+ * Ready-made handlers for the token lifecycle, mount them from a route file:
+ *
+ *     // routes/auth/refresh/index.ts
+ *     export { refreshRoute as POST } from "hapta";
+ */
+
+/** POST `{ refreshToken }`, answers with the principal holding the new token pair. */
+export async function refreshRoute(ctx: Context): Promise<Response> {
+  const refreshToken = ctx.input.body?.refreshToken;
+  if (typeof refreshToken !== "string" || !refreshToken) {
+    return ctx.json({ success: false, error: { code: "invalid_request", message: "Missing refreshToken" } }, 400);
+  }
+  const principal = await ctx.services.Clover.Refresh(refreshToken);
+  if (!principal.isAuthenticated) return ctx.json({ success: false, error: principal.error }, 401);
+  return ctx.json(principal);
+}
+
+/** POST with `Authorization: Bearer <token>`, revokes the token's whole session. */
+export async function logoutRoute(ctx: Context): Promise<Response> {
+  if (!ctx.principal.isAuthenticated) {
+    return ctx.json({ success: false, error: ctx.principal.error ?? { code: "invalid_token", message: "Not authenticated" } }, 401);
+  }
+  const result = await ctx.services.Clover.Logout(ctx.principal.token);
+  if ("error" in result) return ctx.json({ success: false, error: result.error }, 401);
+  return ctx.json({ success: true });
+}
@@ -0,0 +1,91 @@
+import { withHeaders } from "../../helpers/HTTP/Response/Headers";
+
+/** The `cors` section of `hapta.config.json`. The top-level `origin` is used when `origin` is left out. */
+export type CorsConfig = {
+  /** "*", one origin, or a list of them. */
+  origin?: string | string[];
+  /** Sends Access-Control-Allow-Credentials, the request's origin is then echoed. Needs explicit origins, "*" matches none. */
+  credentials?: boolean;
+  /** Response headers browsers may read, e.g. RateLimit-Remaining. */
+  exposedHeaders?: string[];
+  /** Request headers allowed in preflights, defaults to whatever the preflight asks for. */
+  allowedHeaders?: string[];
+  /** Methods allowed in preflights, defaults to the methods the route answers. */
+  methods?: string[];
+  /** Seconds browsers may cache a preflight, defaults to 86400. */
+  maxAge?: number;
+};
+
+/** Exported as `cors` from a route file, merged over the global policy. `false` sends no CORS headers at all. */
+export type CorsPolicy = Omit<CorsConfig, "origin"> & {
+  origin?: CorsConfig["origin"] | ((origin: string) => boolean);
+};
+
+const DEFAULT_MAX_AGE = 86400;
+
+/** The policy for a route: its own `cors` export over the global one. */
+export function resolveCors(global: CorsPolicy, route?: CorsPolicy | false): CorsPolicy | false {
+  if (route === false) return false;
+  return route ? { ...global, ...route } : global;
+}
+
+/** A browser preflight, as opposed to a plain OPTIONS request. */
+export function isPreflight(req: Request): boolean {
+  return req.method === "OPTIONS" && req.headers.has("origin") && req.headers.has("access-control-request-method");
+}
+
+/**
+ * The Access-Control-Allow-Origin value for `requestOrigin`, undefined when it
+ * is not allowed. `varies` says whether the answer depends on the Origin header.
+ */
+function allowOrigin(policy: CorsPolicy, requestOrigin: string | null): { value?: string; varies: boolean } {
+  const { origin = "*", credentials } = policy;
+  if (origin === "*" && !credentials) return { value: "*", varies: false };
+  if (!requestOrigin) return { varies: true };
+  // The config refuses "*" with credentials, this also keeps a route's `credentials: true` from reflecting any origin.
+  const wildcard = !credentials && (origin === "*" || (Array.isArray(origin) && origin.includes("*")));
+  const allowed =
+    wildcard ||
+    (typeof origin === "function" ? origin(requestOrigin) : Array.isArray(origin) ? origin.includes(requestOrigin) : origin === requestOrigin);
+  return { value: allowed ? requestOrigin : undefined, varies: true };
+}
+
+function appendVary(existing: string | null, ...names: string[]): string {
+  const values = (existing ?? "").split(",").map((value) => value.trim()).filter(Boolean);
+  for (const name of names) {
+    if (!values.some((value) => value.toLowerCase() === name.toLowerCase() || value === "*")) values.push(name);
+  }
+  return values.join(", ");
+}
+
+/** Adds the CORS headers for `req` to any response, including errors and middleware short-circuits. */
+export function applyCors(response: Response, req: Request, policy: CorsPolicy | false): Response {
+  if (policy === false) return response;
+  const { value, varies } = allowOrigin(policy, req.headers.get("origin"));
+  const headers: Record<string, string> = {};
+  if (varies) headers.Vary = appendVary(response.headers.get("vary"), "Origin");
+  if (value) {
+    headers["Access-Control-Allow-Origin"] = value;
+    if (policy.credentials) headers["Access-Control-Allow-Credentials"] = "true";
+    if (policy.exposedHeaders?.length) headers["Access-Control-Expose-Headers"] = policy.exposedHeaders.join(", ");
+  }
+  return Object.keys(headers).length > 0 ? withHeaders(response, headers) : response;
+}
+
+/** Answers a preflight, `allow` is the route's Allow list. applyCors still adds the origin headers. */
+export function preflightResponse(req: Request, policy: CorsPolicy | false, allow: string): Response {
+  if (policy === false) return new Response(null, { status: 204, headers: { Allow: allow } });
+  const requested = req.headers.get("access-control-request-headers");
+  return new Response(null, {
+    status: 204,
+    headers: {
+      Allow: allow,
+      "Access-Control-Allow-Methods": policy.methods?.join(", ") ?? allow,
+      ...((policy.allowedHeaders || requested) && {
+        "Access-Control-Allow-Headers": policy.allowedHeaders?.join(", ") ?? requested!,
+      }),
+      "Access-Control-Max-Age": String(policy.maxAge ?? DEFAULT_MAX_AGE),
+      Vary: "Origin, Access-Control-Request-Method, Access-Control-Request-Headers",
+    },
+  });
+}
@@ -1,5 +1,11 @@
 import Pocketbase from "pocketbase";
-import CacheHandler from "./CacheManager";
+import type { CacheStore } from "./CacheStore";
+import { RealtimeBridge, type RealtimeAction } from "./RealtimeBridge";
+import type { TopicHub } from "./Topics";
+import { logger } from "./Logger";
+import { countDbCall } from "./Metrics";
+
+const log = logger.child({ component: "DatabaseService" });
 
 export type BaseRecord = {
   id: string;
@@ -7,6 +13,12 @@ export type BaseRecord = {
   updated: string;
 };
 
+/** Values PocketBase accepts for file fields, e.g. the uploads in `ctx.files`. */
+export type FileValue = File | Blob | (File | Blob)[];
+
+/** A create/update payload, file fields may carry uploads instead of stored file names. */
+export type RecordData<T> = { [K in keyof T]?: T[K] | FileValue } & { [field: string]: unknown };
+
 export type ListOptions<T> = {
   page?: number;
   limit?: number;
@@ -24,15 +36,214 @@ export type PaginatedResponse<T> = {
   cacheKey: string; // ✅ clients can store this key!
 };
 
+export type DatabaseOptions = {
+  /**
+   * Seconds an expired get/list entry may still be served, per collection,
+   * while a single background refresh runs. "*" applies to every other collection.
+   */
+  staleWhileRevalidate?: Record<string, number>;
+  /**
+   * When set, every committed create/update/delete is published to the
+   * `<collection>` and `<collection>/<id>` topics as `{ action, record }`.
+   */
+  topics?: TopicHub;
+  /** Prepended to every topic this service publishes, keeps tenants sharing one hub apart. */
+  topicPrefix?: string;
+};
+
+/** What get/list actually store, so expired-but-in-grace entries can be told apart from fresh ones. */
+type CacheEnvelope<T> = { value: T; freshUntil: number; tags: string[] };
+
+/** Tag carried by every cached entry that contains this record, directly or through expand. */
+export function recordTag(collection: string, id: string): string {
+  return `record:${collection}:${id}`;
+}
+
+/** Tag carried by every cached list page of a collection. */
+export function listTag(collection: string): string {
+  return `list:${collection}`;
+}
+
+/** Tag carried by every cached entry holding at least one record of the collection. */
+export function collectionTag(collection: string): string {
+  return `collection:${collection}`;
+}
+
+/** The collection a record, list or collection tag belongs to. */
+function tagCollection(tag: string): string | undefined {
+  return tag.split(":")[1];
+}
+
+/** Walks a PocketBase response (expand included) and adds a record tag for every record found in it. */
+function collectRecordTags(value: any, tags: Set<string>): Set<string> {
+  if (Array.isArray(value)) {
+    for (const item of value) collectRecordTags(item, tags);
+  } else if (value && typeof value === "object") {
+    if (typeof value.id === "string" && typeof value.collectionName === "string") {
+      tags.add(recordTag(value.collectionName, value.id));
+      tags.add(collectionTag(value.collectionName));
+    }
+    for (const nested of Object.values(value)) {
+      if (nested && typeof nested === "object") collectRecordTags(nested, tags);
+    }
+  }
+  return tags;
+}
+
+/** Back-relation expands ("comments_via_post") change whenever the other collection does, so they carry its list tag. */
+function backRelationTags(expand?: string[]): string[] {
+  const tags: string[] = [];
+  for (const path of expand ?? []) {
+    for (const part of path.split(".")) {
+      const match = /^(\w+)_via_\w+$/.exec(part);
+      if (match) tags.push(listTag(match[1]));
+    }
+  }
+  return tags;
+}
+
+/** TTL used when the cache store has no adaptive getDynamicTTL of its own. */
+const DEFAULT_TTL_SECONDS = 60 * 60;
+
+/**
+ * Swaps uploads for their file names, the way PocketBase will store them,
+ * so optimistic batch records stay serializable for every cache store.
+ */
+function withoutUploads(data: Record<string, any> | FormData): Record<string, any> {
+  const entries = data instanceof FormData ? [...data.entries()] : Object.entries(data);
+  const fileName = (value: any) => (value instanceof Blob ? (value as File).name ?? "blob" : value);
+  const result: Record<string, any> = {};
+  for (const [field, value] of entries) {
+    result[field] = Array.isArray(value) ? value.map(fileName) : fileName(value);
+  }
+  return result;
+}
+
+/**
+ * The previous values of every field an update sends, to undo it with. Null when
+ * they cannot be written back: uploads replace stored files, which are gone by then.
+ */
+function restoreFields(data: Record<string, any> | FormData | undefined, previous: Record<string, any>): Record<string, any> | null {
+  const entries = data instanceof FormData ? [...data.entries()] : Object.entries(data ?? {});
+  const restore: Record<string, any> = {};
+  for (const [key, value] of entries) {
+    if (value instanceof Blob || (Array.isArray(value) && value.some((item) => item instanceof Blob))) return null;
+    // "tags+", "+tags" and "tags-" modify "tags", which gets its previous value back as a whole.
+    const field = key.replace(/^\+|[+-]$/g, "");
+    restore[field] = previous[field];
+  }
+  return restore;
+}
+
+/** A single write queued while batch mode is on. */
+export type BatchOperation =
+  | { action: "create"; collection: string; data: any; scaffoldId?: string }
+  | { action: "update"; collection: string; id: string; data: any }
+  | { action: "delete"; collection: string; id: string };
+
+export type BatchOperationError = {
+  status: number;
+  message: string;
+  data?: any;
+};
+
+/** Outcome of one queued operation, in the same order the operations were queued. */
+export type BatchOperationResult<T = any> =
+  | { index: number; action: "create"; collection: string; success: true; id: string; record: T }
+  | { index: number; action: "update"; collection: string; success: true; id: string; record: T }
+  | { index: number; action: "delete"; collection: string; success: true; id: string }
+  | { index: number; action: BatchOperation["action"]; collection: string; success: false; id?: string; error: BatchOperationError };
+
+export type BatchResult<T = any> = {
+  /** True only when every operation was committed. */
+  success: boolean;
+  /** "batch" when PocketBase's batch endpoint ran the transaction, "sequential" when undo ops were used. */
+  mode: "batch" | "sequential";
+  results: BatchOperationResult<T>[];
+  /** True when a failure caused already applied operations to be undone. */
+  rolledBack: boolean;
+  /**
+   * Operations whose undo failed, these are left committed in PocketBase and
+   * are the only ones still reported as successful in `results`.
+   */
+  rollbackFailures: BatchOperationResult<T>[];
+  /** Scaffold ID → real record ID for every queued create, only filled in on success. */
+  scaffolds: Record<string, string>;
+};
+
+const RECORD_ID_ALPHABET = "abcdefghijklmnopqrstuvwxyz0123456789";
+
+/** Generates an ID in PocketBase's default format (15 lowercase alphanumeric characters). */
+function generateRecordId(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(15));
+  return Array.from(bytes, (byte) => RECORD_ID_ALPHABET[byte % RECORD_ID_ALPHABET.length]).join("");
+}
+
+/** The record ID an operation targets, creates only get one once committed. */
+function operationId(op: BatchOperation): string | undefined {
+  return op.action === "create" ? undefined : op.id;
+}
+
+/** Normalizes any thrown PocketBase/network error into a plain object. */
+function toBatchError(error: any): BatchOperationError {
+  return {
+    status: typeof error?.status === "number" ? error.status : 0,
+    message: error?.response?.message || error?.message || "Unknown error",
+    ...(error?.response?.data && { data: error.response.data }),
+  };
+}
+
 export class DatabaseService {
   private pb: Pocketbase;
-  private cache: CacheHandler;
+  private cache: CacheStore;
+  private options: DatabaseOptions;
+  /** State shared by a service and every scope started from it. */
+  private shared: {
+    batchApiAvailable: boolean;
+    /** Fetches currently running against PocketBase, keyed by cache key. */
+    inFlight: Map<string, Promise<any>>;
+    /** Bumped on every invalidation, `invalidatedAt` records it per collection. */
+    sequence: number;
+    /**
+     * Per collection, the sequence of its last invalidation. Fetches that started
+     * before one of the collections they hold was invalidated don't write stale data back.
+     */
+    invalidatedAt: Map<string, number>;
+    /** Collections whose changes are published from realtime events instead of our own mutations, so nothing is sent twice. */
+    realtimeCollections: Set<string>;
+  };
   private isBatchMode = false;
-  private batchQueue: Array<{ action: "create" | "update" | "delete"; payload: any }> = [];
+  private batchQueue: BatchOperation[] = [];
+  /** Optimistic records this scope has prepended to cached list pages, keyed by scaffold ID. */
+  private scaffolds = new Map<string, { collection: string; record: any }>();
+  /** Scaffold ID → real record ID, filled in as batches commit. */
+  private scaffoldIds = new Map<string, string>();
 
-  constructor(pocketbaseInstance: Pocketbase, cacheController: CacheHandler) {
+  constructor(pocketbaseInstance: Pocketbase, cacheController: CacheStore, options: DatabaseOptions = {}) {
     this.pb = pocketbaseInstance;
     this.cache = cacheController;
+    this.options = options;
+    // batchApiAvailable is flipped off the first time PocketBase says the batch endpoint is disabled or missing.
+    this.shared = { batchApiAvailable: true, inFlight: new Map(), sequence: 0, invalidatedAt: new Map(), realtimeCollections: new Set() };
+  }
+
+  /**
+   * Starts a request-scoped unit of work. The scope keeps its own batch flag,
+   * queue and scaffolds, while the PocketBase client (and its superuser session)
+   * and the cache stay shared with this service.
+   */
+  public beginScope(): DatabaseService {
+    const scope = new DatabaseService(this.pb, this.cache, this.options);
+    scope.shared = this.shared;
+    return scope;
+  }
+
+  /** Ends a scope, discarding anything that was queued but never saved. */
+  public async endScope() {
+    if (this.batchQueue.length > 0) {
+      log.warn(`scope ended with ${this.batchQueue.length} unsaved operation(s), discarding them`);
+    }
+    await this.discardChanges();
   }
 
   public setBatch(enable: boolean) {
@@ -44,31 +255,397 @@ export class DatabaseService {
     return parts.filter(Boolean).join(":");
   }
 
-  /** Dynamic TTL based on usage or type. */
-  private getDynamicTTL(key: string, mode: "short" | "medium" | "long" = "medium"): number {
-    switch (mode) {
-      case "short": return 10 * 60; // 10 min
-      case "medium": return 60 * 60; // 1 hour
-      case "long": return 6 * 60 * 60; // 6 hours
+  /** TTL in seconds, adaptive when the cache store provides getDynamicTTL (which answers in ms). */
+  private getDynamicTTL(key: string): number {
+    return this.cache.getDynamicTTL ? this.cache.getDynamicTTL(key) / 1000 : DEFAULT_TTL_SECONDS;
+  }
+
+  /** Seconds a stale entry of this collection may still be served. */
+  private getGracePeriod(collection: string): number {
+    const windows = this.options.staleWhileRevalidate ?? {};
+    return windows[collection] ?? windows["*"] ?? 0;
+  }
+
+  private async readCache<T>(key: string): Promise<{ value: T; stale: boolean; tags: string[] } | null> {
+    const entry = await this.cache.get<CacheEnvelope<T>>(key);
+    if (!entry || typeof entry !== "object" || !("freshUntil" in entry)) return null;
+    return { value: entry.value, stale: entry.freshUntil <= Date.now(), tags: entry.tags ?? [] };
+  }
+
+  /**
+   * Stores a value that is fresh for its TTL and kept around for the collection's grace period after that.
+   * The entry is tagged with `tags` plus a record tag for every record inside the value.
+   */
+  private async writeCache<T>(collection: string, key: string, value: T, tags: string[]) {
+    const ttl = this.getDynamicTTL(key);
+    const allTags = [...collectRecordTags(value, new Set(tags))];
+    const envelope: CacheEnvelope<T> = { value, freshUntil: Date.now() + ttl * 1000, tags: allTags };
+    await this.cache.set(key, envelope, ttl + this.getGracePeriod(collection), allTags);
+  }
+
+  /** Runs `fetcher` once per key, concurrent callers (from any scope) share the same promise. */
+  private coalesce<T>(key: string, fetcher: () => Promise<T>): Promise<T> {
+    const inFlight = this.shared.inFlight.get(key);
+    if (inFlight) return inFlight;
+    const promise = fetcher().finally(() => this.shared.inFlight.delete(key));
+    this.shared.inFlight.set(key, promise);
+    return promise;
+  }
+
+  /**
+   * Read-through cache: fresh hits are returned as is, misses are fetched once
+   * and cached, stale hits inside the grace period are returned right away
+   * while one background refresh runs. `null` results are not cached.
+   */
+  private async readThrough<T>(
+    collection: string,
+    key: string,
+    tags: string[],
+    fetcher: () => Promise<T | null>
+  ): Promise<T | null> {
+    const hit = await this.readCache<T>(key);
+    if (hit && !hit.stale) return hit.value;
+
+    const refresh = () =>
+      this.coalesce(key, async () => {
+        const started = this.shared.sequence;
+        const value = await fetcher();
+        const holds = [collection, ...[...tags, ...collectRecordTags(value, new Set())].map(tagCollection)];
+        if (value !== null && !this.invalidatedSince(started, holds)) {
+          await this.writeCache(collection, key, value, tags);
+        }
+        return value;
+      });
+
+    if (hit) {
+      refresh().catch((error) => log.error(`background refresh failed: ${key}`, { error }));
+      return hit.value;
+    }
+    return refresh();
+  }
+
+  /** Whether any of the collections was invalidated after `sequence`. */
+  private invalidatedSince(sequence: number, collections: (string | undefined)[]): boolean {
+    return collections.some((collection) => collection && (this.shared.invalidatedAt.get(collection) ?? 0) > sequence);
+  }
+
+  private markInvalidated(collection: string) {
+    this.shared.invalidatedAt.set(collection, ++this.shared.sequence);
+  }
+
+  /** Publishes a committed change to the collection topic and the record topic. */
+  private publishChange(collection: string, action: RealtimeAction, record: { id: string }, fromRealtime = false) {
+    if (!this.options.topics) return;
+    if (!fromRealtime && this.shared.realtimeCollections.has(collection)) return;
+    const prefix = this.options.topicPrefix ?? "";
+    this.options.topics.publish(`${prefix}${collection}`, { action, record }, collection);
+    this.options.topics.publish(`${prefix}${collection}/${record.id}`, { action, record }, `${collection}/${record.id}`);
+  }
+
+  /** Drops every queued operation without sending anything to PocketBase, and pulls this scope's scaffolds back out of the cache. */
+  public async discardChanges() {
+    await this.removeScaffoldsFromCache();
+    this.batchQueue = [];
+    this.isBatchMode = false;
+  }
+
+  /** Returns the real record ID for a scaffold ID once its batch has committed, any other ID is returned as is. */
+  public resolveId(id: string): string {
+    return this.scaffoldIds.get(id) ?? id;
+  }
+
+  /** Applies `patch` to the items of every cached list page of the given collections. */
+  private async patchCachedPages(collections: Set<string>, patch: (page: PaginatedResponse<any>) => void) {
+    for (const collection of collections) {
+      for (const key of await this.cache.keys(this.generateCacheKey([collection, "list"]))) {
+        const cached = await this.readCache<PaginatedResponse<any>>(key);
+        if (cached && Array.isArray(cached.value?.items)) {
+          patch(cached.value);
+          await this.writeCache(collection, key, cached.value, cached.tags);
+        }
+      }
+    }
+  }
+
+  /** Removes this scope's scaffold records from every cached list page they were prepended to. */
+  private async removeScaffoldsFromCache() {
+    if (this.scaffolds.size === 0) return;
+    const collections = new Set([...this.scaffolds.values()].map((scaffold) => scaffold.collection));
+    await this.patchCachedPages(collections, (page) => {
+      const before = page.items.length;
+      page.items = page.items.filter((item: any) => !this.scaffolds.has(item.id));
+      page.totalItems -= before - page.items.length;
+    });
+    this.scaffolds.clear();
+  }
+
+  /**
+   * Pre-assigns a real ID to every create that has a scaffold ID, then rewrites
+   * every reference to those scaffold IDs (update/delete targets and relation
+   * field values) so later operations in the same batch hit the real records.
+   */
+  private resolveScaffoldReferences(operations: BatchOperation[]): BatchOperation[] {
+    const ids = new Map<string, string>();
+    for (const op of operations) {
+      if (op.action === "create" && op.scaffoldId) {
+        const presetId = op.data instanceof FormData ? op.data.get("id") : op.data?.id;
+        ids.set(op.scaffoldId, typeof presetId === "string" && presetId ? presetId : generateRecordId());
+      }
+    }
+    if (ids.size === 0) return operations;
+
+    const rewrite = (value: any): any => {
+      if (typeof value === "string") return ids.get(value) ?? value;
+      if (Array.isArray(value)) return value.map(rewrite);
+      return value;
+    };
+    const rewriteFields = (data: any) => {
+      if (!data || typeof data !== "object" || data instanceof FormData) return data;
+      return Object.fromEntries(Object.entries(data).map(([field, value]) => [field, rewrite(value)]));
+    };
+
+    return operations.map((op): BatchOperation => {
+      switch (op.action) {
+        case "create": {
+          const data = rewriteFields(op.data);
+          const id = op.scaffoldId && ids.get(op.scaffoldId);
+          if (id && data instanceof FormData) data.set("id", id);
+          return { ...op, data: id && !(data instanceof FormData) ? { ...data, id } : data };
+        }
+        case "update":
+          return { ...op, id: rewrite(op.id), data: rewriteFields(op.data) };
+        case "delete":
+          return { ...op, id: rewrite(op.id) };
+      }
+    });
+  }
+
+  /**
+   * Commits the queued operations as a single all-or-nothing unit.
+   * Uses PocketBase's batch endpoint when it is enabled, otherwise replays the
+   * queue and undoes the applied operations if one of them fails.
+   * Queued references to scaffold IDs are rewritten to the real IDs first.
+   * On success everything touched is invalidated, list pages holding
+   * scaffolds included, so they are read again with the real records. On
+   * failure the scaffolds are pulled back out of the cache and the queue is
+   * kept so the caller can retry or discard it.
+   */
+  public async saveChanges<T = any>(): Promise<BatchResult<T>> {
+    if (this.batchQueue.length === 0) {
+      this.isBatchMode = false;
+      return { success: true, mode: "batch", results: [], rolledBack: false, rollbackFailures: [], scaffolds: {} };
+    }
+    const operations = this.resolveScaffoldReferences(this.batchQueue);
+
+    let result: BatchResult<T> | null = null;
+    if (this.shared.batchApiAvailable) {
+      result = await this.commitWithBatchApi<T>(operations);
+    }
+    if (!result) {
+      result = await this.commitSequentially<T>(operations);
+    }
+
+    if (!result.success) {
+      await this.removeScaffoldsFromCache();
+      return result;
     }
+
+    for (const [index, op] of operations.entries()) {
+      const opResult = result.results[index];
+      if (op.action === "create" && op.scaffoldId && opResult?.success && opResult.action === "create") {
+        result.scaffolds[op.scaffoldId] = opResult.id;
+        this.scaffoldIds.set(op.scaffoldId, opResult.id);
+      }
+    }
+
+    // Pages holding scaffolds are dropped with the rest: the committed record may not match
+    // their filter or belong on their page, and only PocketBase knows the new totals.
+    this.scaffolds.clear();
+    for (const op of operations) {
+      await this.invalidateRecord(op.collection, operationId(op));
+    }
+    for (const opResult of result.results) {
+      if (!opResult.success) continue;
+      this.publishChange(opResult.collection, opResult.action, opResult.action === "delete" ? { id: opResult.id } : opResult.record as any);
+    }
+
+    this.batchQueue = [];
+    this.isBatchMode = false;
+    return result;
   }
 
-  public async saveChanges() {
-    for (const op of this.batchQueue) {
+  /** Runs the queue through `/api/batch`. Returns null when the endpoint is not usable. */
+  private async commitWithBatchApi<T>(operations: BatchOperation[]): Promise<BatchResult<T> | null> {
+    const batch = this.pb.createBatch();
+    for (const op of operations) {
       switch (op.action) {
         case "create":
-          await this.create(op.payload.collection, op.payload.data, false);
+          batch.collection(op.collection).create(op.data);
           break;
         case "update":
-          await this.update(op.payload.collection, op.payload.id, op.payload.data);
+          batch.collection(op.collection).update(op.id, op.data);
           break;
         case "delete":
-          await this.delete(op.payload.collection, op.payload.id);
+          batch.collection(op.collection).delete(op.id);
           break;
       }
     }
-    this.batchQueue = [];
-    this.isBatchMode = false;
+
+    try {
+      const responses = await countDbCall("*", "batch", () => batch.send());
+      const results = operations.map((op, index): BatchOperationResult<T> => {
+        const body = responses[index]?.body;
+        if (op.action === "delete") {
+          return { index, action: "delete", collection: op.collection, success: true, id: op.id };
+        }
+        return { index, action: op.action, collection: op.collection, success: true, id: body?.id ?? operationId(op), record: body };
+      });
+      return { success: true, mode: "batch", results, rolledBack: false, rollbackFailures: [], scaffolds: {} };
+    } catch (error: any) {
+      const failedRequests = error?.response?.data?.requests;
+      if (!failedRequests && (error?.status === 403 || error?.status === 404)) {
+        log.warn("batch endpoint unavailable, falling back to sequential commits");
+        this.shared.batchApiAvailable = false;
+        return null;
+      }
+
+      // The transaction was rolled back by PocketBase, so every operation is reported as failed.
+      const results = operations.map((op, index): BatchOperationResult<T> => {
+        const failure = failedRequests?.[String(index)];
+        const opError: BatchOperationError = failure
+          ? { status: failure.response?.status ?? 400, message: failure.response?.message || failure.message, data: failure.response?.data }
+          : { status: 0, message: failedRequests ? "Not committed, another operation in the batch failed" : toBatchError(error).message };
+        return { index, action: op.action, collection: op.collection, success: false, id: operationId(op), error: opError };
+      });
+      return { success: false, mode: "batch", results, rolledBack: true, rollbackFailures: [], scaffolds: {} };
+    }
+  }
+
+  /** Applies the queue one call at a time, undoing applied operations in reverse order on failure. */
+  private async commitSequentially<T>(operations: BatchOperation[]): Promise<BatchResult<T>> {
+    const results: BatchOperationResult<T>[] = [];
+    const undo: Array<{ index: number; op: BatchOperation; run: () => Promise<unknown> }> = [];
+
+    for (const [index, op] of operations.entries()) {
+      try {
+        switch (op.action) {
+          case "create": {
+            const record = await countDbCall(op.collection, "create", () => this.pb.collection(op.collection).create<any>(op.data));
+            undo.push({ index, op, run: () => countDbCall(op.collection, "delete", () => this.pb.collection(op.collection).delete(record.id)) });
+            results.push({ index, action: "create", collection: op.collection, success: true, id: record.id, record });
+            break;
+          }
+          case "update": {
+            const previous = await countDbCall(op.collection, "get", () => this.pb.collection(op.collection).getOne<any>(op.id));
+            const record = await countDbCall(op.collection, "update", () => this.pb.collection(op.collection).update<any>(op.id, op.data));
+            const restore = restoreFields(op.data, previous);
+            undo.push({
+              index,
+              op,
+              run: async () => {
+                if (!restore) throw new Error(`uploads replaced on ${op.collection}/${op.id} cannot be restored`);
+                await countDbCall(op.collection, "update", () => this.pb.collection(op.collection).update(op.id, restore));
+              },
+            });
+            results.push({ index, action: "update", collection: op.collection, success: true, id: op.id, record });
+            break;
+          }
+          case "delete": {
+            const previous = await countDbCall(op.collection, "get", () => this.pb.collection(op.collection).getOne<any>(op.id));
+            await countDbCall(op.collection, "delete", () => this.pb.collection(op.collection).delete(op.id));
+            const { collectionId, collectionName, expand, created, updated, ...fields } = previous;
+            undo.push({ index, op, run: () => countDbCall(op.collection, "create", () => this.pb.collection(op.collection).create({ ...fields, id: op.id })) });
+            results.push({ index, action: "delete", collection: op.collection, success: true, id: op.id });
+            break;
+          }
+        }
+      } catch (error) {
+        results.push({ index, action: op.action, collection: op.collection, success: false, id: operationId(op), error: toBatchError(error) });
+        const rollbackFailures = await this.rollback<T>(undo);
+        // Undone operations are reported as not committed, only those whose undo failed stay successful.
+        const stillApplied = new Set(rollbackFailures.map((failure) => failure.index));
+        for (const step of undo) {
+          if (stillApplied.has(step.index)) continue;
+          results[step.index] = {
+            index: step.index,
+            action: step.op.action,
+            collection: step.op.collection,
+            success: false,
+            id: operationId(step.op),
+            error: { status: 0, message: "Rolled back, another operation in the batch failed" },
+          };
+        }
+        // Operations after the failing one never ran, report them as not committed.
+        for (const [skipped, rest] of operations.slice(index + 1).entries()) {
+          results.push({
+            index: index + 1 + skipped,
+            action: rest.action,
+            collection: rest.collection,
+            success: false,
+            id: operationId(rest),
+            error: { status: 0, message: "Not committed, another operation in the batch failed" },
+          });
+        }
+        return { success: false, mode: "sequential", results, rolledBack: true, rollbackFailures, scaffolds: {} };
+      }
+    }
+
+    return { success: true, mode: "sequential", results, rolledBack: false, rollbackFailures: [], scaffolds: {} };
+  }
+
+  /** Runs compensating operations newest-first, returning the ones that could not be undone. */
+  private async rollback<T>(undo: Array<{ index: number; op: BatchOperation; run: () => Promise<unknown> }>) {
+    const failures: BatchOperationResult<T>[] = [];
+    for (const step of [...undo].reverse()) {
+      try {
+        await step.run();
+      } catch (error) {
+        log.error(`rollback failed: ${step.op.action} ${step.op.collection}`, { error });
+        failures.push({ index: step.index, action: step.op.action, collection: step.op.collection, success: false, id: operationId(step.op), error: toBatchError(error) });
+      }
+    }
+    return failures;
+  }
+
+  /**
+   * Drops every cached list page of the collection and, given an ID, every
+   * entry that contains the record: its gets (any expand), other collections'
+   * lists and gets that embed it through expand.
+   */
+  private async invalidateRecord(collection: string, id?: string) {
+    this.markInvalidated(collection);
+    await this.cache.invalidateByTag(listTag(collection));
+    if (id) await this.cache.invalidateByTag(recordTag(collection, id));
+  }
+
+  /**
+   * Listens to PocketBase realtime events for the given collections so writes
+   * made outside Hapta (admin UI, hooks, other services) invalidate the cache
+   * like our own mutations do. After the stream drops and comes back, every
+   * cached entry of those collections is flushed since events were missed.
+   * Returns a function that stops listening.
+   */
+  public subscribeToRealtime(collections: string[]): () => void {
+    for (const collection of collections) this.shared.realtimeCollections.add(collection);
+    const bridge = new RealtimeBridge(this.pb, collections, {
+      onEvent: async ({ collection, action, record }) => {
+        await this.invalidateRecord(collection, action === "create" ? undefined : record.id);
+        this.publishChange(collection, action, record, true);
+      },
+      onReconnect: async () => {
+        log.warn(`realtime reconnected, flushing ${collections.join(", ")}`);
+        for (const collection of collections) {
+          this.markInvalidated(collection);
+          await this.cache.invalidateByPrefix(`${collection}:`);
+          await this.cache.invalidateByTag(collectionTag(collection));
+        }
+      },
+    });
+    bridge.start();
+    return () => {
+      bridge.stop();
+      for (const collection of collections) this.shared.realtimeCollections.delete(collection);
+    };
   }
 
   /** Get one record, with caching. */
@@ -77,21 +654,24 @@ export class DatabaseService {
     id: string,
     expand?: string[]
   ): Promise<(T & { cacheKey: string }) | null> {
+    id = this.resolveId(id);
     const cacheKey = this.generateCacheKey([collection, "get", id, expand?.join(",")]);
-    const cached = this.cache.get<T>(cacheKey);
-    if (cached) return { ...cached, cacheKey };
 
-    try {
-      const record = await this.pb.collection(collection).getOne<T>(id, {
-        ...(expand && { expand: expand.join(",") }),
-      });
-      this.cache.set(cacheKey, record, this.getDynamicTTL(cacheKey));
-      return { ...record, cacheKey };
-    } catch (error: any) {
-      if (error.status === 404) return null;
-      console.error(`[DatabaseService] get failed: ${collection}/${id}`, error);
-      throw error;
-    }
+    const tags = [recordTag(collection, id), ...backRelationTags(expand)];
+    const record = await this.readThrough<T>(collection, cacheKey, tags, async () => {
+      try {
+        return await countDbCall(collection, "get", () =>
+          this.pb.collection(collection).getOne<T>(id, {
+            ...(expand && { expand: expand.join(",") }),
+          })
+        );
+      } catch (error: any) {
+        if (error.status === 404) return null;
+        log.error(`get failed: ${collection}/${id}`, { error });
+        throw error;
+      }
+    });
+    return record ? { ...record, cacheKey } : null;
   }
 
   /** List records with pagination + caching. */
@@ -102,95 +682,102 @@ export class DatabaseService {
     const { page = 1, limit = 10, filter, sort, expand } = options;
     const cacheKey = this.generateCacheKey([collection, "list", page, limit, filter, sort, expand?.join(",")]);
 
-    const cached = this.cache.get<PaginatedResponse<T>>(cacheKey);
-    if (cached) return cached;
-
-    const result = await this.pb.collection(collection).getList<T>(page, limit, {
-      filter,
-      sort,
-      ...(expand && { expand: expand.join(",") }),
+    const tags = [listTag(collection), ...backRelationTags(expand)];
+    const response = await this.readThrough<PaginatedResponse<T>>(collection, cacheKey, tags, async () => {
+      const result = await countDbCall(collection, "list", () =>
+        this.pb.collection(collection).getList<T>(page, limit, {
+          filter,
+          sort,
+          ...(expand && { expand: expand.join(",") }),
+        })
+      );
+      return {
+        items: result.items,
+        totalItems: result.totalItems,
+        totalPages: result.totalPages,
+        page: result.page,
+        limit: result.perPage,
+        cacheKey,
+      };
     });
-
-    const response: PaginatedResponse<T> = {
-      items: result.items,
-      totalItems: result.totalItems,
-      totalPages: result.totalPages,
-      page: result.page,
-      limit: result.perPage,
-      cacheKey,
-    };
-
-    this.cache.set(cacheKey, response, this.getDynamicTTL(cacheKey));
-    return response;
+    return response!;
   }
 
-  /** Create a record. Supports batching + scaffold. */
+  /**
+   * Create a record. Supports batching + scaffold.
+   * In batch mode every create gets a scaffold ID that later queued operations
+   * can reference; `useScaffold` also prepends the optimistic record to the
+   * collection's cached list pages until the batch commits or fails.
+   */
   public async create<T extends BaseRecord>(
     collection: string,
-    data: Partial<T>,
+    data: RecordData<T> | FormData,
     useScaffold: boolean = false
   ): Promise<T> {
-    if (this.isBatchMode && useScaffold) {
-      const scaffoldId = Math.random().toString(36).substring(2, 10);
+    if (this.isBatchMode) {
+      const scaffoldId = `scaffold_${generateRecordId()}`;
       const scaffoldRecord: any = {
-        ...data,
+        ...withoutUploads(data),
         id: scaffoldId,
         created: new Date().toISOString(),
         updated: new Date().toISOString(),
         scaffold: true,
       };
 
-      // Prepend to any feed cache:
-      this.cache.keys().forEach((key) => {
-        if (key.startsWith(`${collection}:list`)) {
-          const existing = this.cache.get<any>(key);
-          if (existing && Array.isArray(existing.items)) {
-            existing.items = [scaffoldRecord, ...existing.items];
-            this.cache.set(key, existing, this.getDynamicTTL(key));
-          }
-        }
-      });
+      if (useScaffold) {
+        this.scaffolds.set(scaffoldId, { collection, record: scaffoldRecord });
+        // Prepend to any feed cache:
+        await this.patchCachedPages(new Set([collection]), (page) => {
+          page.items = [scaffoldRecord, ...page.items];
+          page.totalItems += 1;
+        });
+      }
 
-      this.batchQueue.push({ action: "create", payload: { collection, data } });
+      this.batchQueue.push({ action: "create", collection, data, scaffoldId });
       return scaffoldRecord;
     }
 
-    const record = await this.pb.collection(collection).create<T>(data);
-    this.cache.invalidateByPrefix(this.generateCacheKey([collection, "list"]));
+    const record = await countDbCall(collection, "create", () => this.pb.collection(collection).create<T>(data));
+    await this.invalidateRecord(collection);
+    this.publishChange(collection, "create", record);
     return record;
   }
- 
+
   public async update<T extends BaseRecord>(
     collection: string,
     id: string,
-    data: Partial<T>,
+    data: RecordData<T> | FormData,
     expand?: string[]
   ): Promise<T> {
+    id = this.resolveId(id);
     if (this.isBatchMode) {
-      this.batchQueue.push({ action: "update", payload: { collection, id, data } });
-      return { id, created: "", updated: "", ...(data as any) };
+      this.batchQueue.push({ action: "update", collection, id, data });
+      return { id, created: "", updated: "", ...withoutUploads(data) } as T;
     }
 
-    const record = await this.pb.collection(collection).update<T>(id, data, {
-      ...(expand && { expand: expand.join(",") }),
-    });
+    const record = await countDbCall(collection, "update", () =>
+      this.pb.collection(collection).update<T>(id, data, {
+        ...(expand && { expand: expand.join(",") }),
+      })
+    );
 
-    this.cache.delete(this.generateCacheKey([collection, "get", id]));
-    this.cache.invalidateByPrefix(this.generateCacheKey([collection, "list"]));
+    await this.invalidateRecord(collection, id);
+    this.publishChange(collection, "update", record);
     return record;
   }
 
   /** Delete a record. */
   public async delete(collection: string, id: string): Promise<boolean> {
+    id = this.resolveId(id);
     if (this.isBatchMode) {
-      this.batchQueue.push({ action: "delete", payload: { collection, id } });
+      this.batchQueue.push({ action: "delete", collection, id });
       return true;
     }
 
-    const success = await this.pb.collection(collection).delete(id);
+    const success = await countDbCall(collection, "delete", () => this.pb.collection(collection).delete(id));
     if (success) {
-      this.cache.delete(this.generateCacheKey([collection, "get", id]));
-      this.cache.invalidateByPrefix(this.generateCacheKey([collection, "list"]));
+      await this.invalidateRecord(collection, id);
+      this.publishChange(collection, "delete", { id });
     }
     return success;
   }
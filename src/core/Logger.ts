@@ -0,0 +1,120 @@
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type LoggingConfig = {
+  /** "json" writes one object per line, "pretty" a readable line for development. Defaults to "json". */
+  format?: "json" | "pretty";
+  /** Field names whose values are never written, on top of passwords, secrets, tokens and cookies. Matched case-insensitively. */
+  redact?: string[];
+  /** One "request" line per request with its status and latency, defaults to true. */
+  accessLog?: boolean;
+};
+
+type LoggerSettings = { level: LogLevel; format: "json" | "pretty"; redact: RegExp };
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+const DEFAULT_REDACT = ["password", "secret", "token", "authorization", "cookie", "api_key", "apikey"];
+const REDACTED = "[redacted]";
+const BEARER = /Bearer\s+[\w.~+/-]+=*/g;
+const MAX_DEPTH = 8;
+
+function redactPattern(names: string[]): RegExp {
+  return new RegExp(names.map((name) => name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join("|"), "i");
+}
+
+/** Copies `value` into something JSON can hold, with redacted fields and bearer tokens blanked out. */
+function sanitize(value: unknown, redact: RegExp, seen: WeakSet<object>, depth: number): unknown {
+  if (typeof value === "string") return value.replace(BEARER, `Bearer ${REDACTED}`);
+  if (typeof value === "bigint") return value.toString();
+  if (value === null || typeof value !== "object") return value;
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof Error) {
+    const code = (value as { code?: unknown }).code;
+    return {
+      name: value.name,
+      message: sanitize(value.message, redact, seen, depth),
+      stack: sanitize(value.stack, redact, seen, depth),
+      ...(code !== undefined && { code }),
+    };
+  }
+  if (seen.has(value)) return "[circular]";
+  if (depth >= MAX_DEPTH) return "[truncated]";
+  // `seen` only holds the current path, an object referenced twice side by side is not a cycle.
+  seen.add(value);
+  let copy: unknown;
+  if (Array.isArray(value)) {
+    copy = value.map((item) => sanitize(item, redact, seen, depth + 1));
+  } else {
+    const fields: Record<string, unknown> = {};
+    for (const [key, field] of Object.entries(value)) {
+      fields[key] = redact.test(key) ? REDACTED : sanitize(field, redact, seen, depth + 1);
+    }
+    copy = fields;
+  }
+  seen.delete(value);
+  return copy;
+}
+
+function prettyValue(value: unknown): string {
+  if (typeof value === "string") return /\s/.test(value) ? JSON.stringify(value) : value;
+  return JSON.stringify(value);
+}
+
+/**
+ * Levelled logger writing JSON lines (or readable ones) with secrets redacted.
+ * `child()` binds fields, e.g. the request ID, to every line it writes; children
+ * share their parent's settings, so `configure()` on the root reaches them all.
+ */
+export class Logger {
+  constructor(private settings: LoggerSettings, private bindings: Record<string, unknown> = {}) {}
+
+  public configure(options: { level?: LogLevel } & LoggingConfig) {
+    if (options.level) this.settings.level = options.level;
+    if (options.format) this.settings.format = options.format;
+    if (options.redact) this.settings.redact = redactPattern([...DEFAULT_REDACT, ...options.redact]);
+  }
+
+  public child(bindings: Record<string, unknown>): Logger {
+    return new Logger(this.settings, { ...this.bindings, ...bindings });
+  }
+
+  public isLevelEnabled(level: LogLevel) {
+    return LEVELS[level] >= LEVELS[this.settings.level];
+  }
+
+  public debug(message: string, fields?: Record<string, unknown>) {
+    this.write("debug", message, fields);
+  }
+
+  public info(message: string, fields?: Record<string, unknown>) {
+    this.write("info", message, fields);
+  }
+
+  public warn(message: string, fields?: Record<string, unknown>) {
+    this.write("warn", message, fields);
+  }
+
+  public error(message: string, fields?: Record<string, unknown>) {
+    this.write("error", message, fields);
+  }
+
+  private write(level: LogLevel, message: string, fields?: Record<string, unknown>) {
+    if (!this.isLevelEnabled(level)) return;
+    const time = new Date();
+    const data = sanitize({ ...this.bindings, ...fields }, this.settings.redact, new WeakSet(), 0) as Record<string, unknown>;
+    const msg = sanitize(message, this.settings.redact, new WeakSet(), 0) as string;
+    const out = level === "warn" || level === "error" ? console.error : console.log;
+
+    if (this.settings.format === "json") {
+      out(JSON.stringify({ time: time.toISOString(), level, msg, ...data }));
+      return;
+    }
+    const { error, ...rest } = data;
+    const pairs = Object.entries(rest).map(([key, value]) => `${key}=${prettyValue(value)}`);
+    out([time.toISOString().slice(11, 23), level.toUpperCase().padEnd(5), msg, ...pairs].join(" "));
+    if (error && typeof error === "object" && "stack" in error) out((error as { stack?: string }).stack);
+    else if (error !== undefined) out(`  error=${prettyValue(error)}`);
+  }
+}
+
+/** The process-wide logger, configured from `logLevel` and `logging` at startup. */
+export const logger = new Logger({ level: "info", format: "json", redact: redactPattern(DEFAULT_REDACT) });
@@ -0,0 +1,205 @@
+import crypto from "crypto";
+import type { CacheStats } from "./CacheManager";
+
+export type MetricsConfig = {
+  /** Where the Prometheus text is served, defaults to /_hapta/metrics. */
+  path?: string;
+  /** When set, scrapes must send `Authorization: Bearer <token>`. */
+  token?: string;
+};
+
+export const DEFAULT_METRICS_PATH = "/_hapta/metrics";
+
+type Labels = Record<string, string | number>;
+type Sample = { labels?: Labels; value: number };
+
+/** Seconds, tuned for API latencies from a cache hit to a slow PocketBase write. */
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+function escapeLabel(value: string | number) {
+  return String(value).replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels = {}) {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+function header(name: string, help: string, type: string) {
+  return `# HELP ${name} ${help.replace(/\n/g, " ")}\n# TYPE ${name} ${type}\n`;
+}
+
+interface Metric {
+  render(): string;
+}
+
+/** Keeps one series per label combination, in the order the labels were declared. */
+abstract class LabelledMetric<S> implements Metric {
+  protected series = new Map<string, { labels: Labels; state: S }>();
+
+  constructor(protected name: string, protected help: string, protected labelNames: string[]) {}
+
+  protected seriesFor(labels: Labels): S {
+    const ordered: Labels = {};
+    for (const name of this.labelNames) ordered[name] = labels[name] ?? "";
+    const key = JSON.stringify(Object.values(ordered));
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels: ordered, state: this.initial() };
+      this.series.set(key, entry);
+    }
+    return entry.state;
+  }
+
+  protected abstract initial(): S;
+  public abstract render(): string;
+}
+
+export class Counter extends LabelledMetric<{ value: number }> {
+  protected initial() {
+    return { value: 0 };
+  }
+
+  public inc(labels: Labels = {}, value = 1) {
+    this.seriesFor(labels).value += value;
+  }
+
+  public render() {
+    let out = header(this.name, this.help, "counter");
+    for (const { labels, state } of this.series.values()) out += `${this.name}${formatLabels(labels)} ${state.value}\n`;
+    return out;
+  }
+}
+
+export class Histogram extends LabelledMetric<{ counts: number[]; sum: number; count: number }> {
+  constructor(name: string, help: string, labelNames: string[], private buckets = DEFAULT_BUCKETS) {
+    super(name, help, labelNames);
+  }
+
+  protected initial() {
+    return { counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+  }
+
+  public observe(labels: Labels, value: number) {
+    const state = this.seriesFor(labels);
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) state.counts[index]++;
+    });
+    state.sum += value;
+    state.count++;
+  }
+
+  public render() {
+    let out = header(this.name, this.help, "histogram");
+    for (const { labels, state } of this.series.values()) {
+      this.buckets.forEach((bound, index) => {
+        out += `${this.name}_bucket${formatLabels({ ...labels, le: bound })} ${state.counts[index]}\n`;
+      });
+      out += `${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${state.count}\n`;
+      out += `${this.name}_sum${formatLabels(labels)} ${state.sum}\n`;
+      out += `${this.name}_count${formatLabels(labels)} ${state.count}\n`;
+    }
+    return out;
+  }
+}
+
+/** A metric whose values are read when scraped, e.g. from CacheHandler.stats(). */
+class Collected implements Metric {
+  constructor(private name: string, private help: string, private type: "counter" | "gauge", private read: () => Sample[]) {}
+
+  public render() {
+    let out = header(this.name, this.help, this.type);
+    for (const { labels, value } of this.read()) out += `${this.name}${formatLabels(labels)} ${value}\n`;
+    return out;
+  }
+}
+
+/** The metrics Hapta exposes, rendered in the Prometheus text format. */
+export class MetricsRegistry {
+  private metrics = new Map<string, Metric>();
+
+  public counter(name: string, help: string, labelNames: string[] = []): Counter {
+    return this.add(name, new Counter(name, help, labelNames));
+  }
+
+  public histogram(name: string, help: string, labelNames: string[] = [], buckets?: number[]): Histogram {
+    return this.add(name, new Histogram(name, help, labelNames, buckets));
+  }
+
+  /** Registers (or replaces) a metric that is read at scrape time. */
+  public collect(name: string, help: string, type: "counter" | "gauge", read: () => Sample[] | number) {
+    this.metrics.set(name, new Collected(name, help, type, () => {
+      const samples = read();
+      return typeof samples === "number" ? [{ value: samples }] : samples;
+    }));
+  }
+
+  public render(): string {
+    return [...this.metrics.values()].map((metric) => metric.render()).join("");
+  }
+
+  private add<M extends Metric>(name: string, metric: M): M {
+    if (this.metrics.has(name)) throw new Error(`Metric "${name}" is already registered`);
+    this.metrics.set(name, metric);
+    return metric;
+  }
+}
+
+export const metrics = new MetricsRegistry();
+
+export const httpRequestsTotal = metrics.counter("hapta_http_requests_total", "HTTP requests by route, method and status.", [
+  "route",
+  "method",
+  "status",
+]);
+export const httpRequestDuration = metrics.histogram("hapta_http_request_duration_seconds", "HTTP request latency by route and method.", [
+  "route",
+  "method",
+]);
+export const dbCallsTotal = metrics.counter("hapta_db_calls_total", "PocketBase calls made by DatabaseService, by collection and operation.", [
+  "collection",
+  "operation",
+]);
+export const dbErrorsTotal = metrics.counter("hapta_db_errors_total", "PocketBase calls that failed, not counting 404s.", [
+  "collection",
+  "operation",
+]);
+export const cloverCallsTotal = metrics.counter("hapta_clover_calls_total", "Calls to Clover by endpoint and outcome (success or an error code).", [
+  "endpoint",
+  "outcome",
+]);
+
+/** Runs a PocketBase call, counting it and, unless it is a 404, its failure. */
+export async function countDbCall<T>(collection: string, operation: string, call: () => Promise<T>): Promise<T> {
+  dbCallsTotal.inc({ collection, operation });
+  try {
+    return await call();
+  } catch (error: any) {
+    if (error?.status !== 404) dbErrorsTotal.inc({ collection, operation });
+    throw error;
+  }
+}
+
+/** Exposes the memory cache's counters, read from `CacheHandler.stats()` at scrape time. */
+export function collectCacheStats(stats: () => CacheStats) {
+  metrics.collect("hapta_cache_hits_total", "Cache lookups that found a live entry.", "counter", () => stats().hits);
+  metrics.collect("hapta_cache_misses_total", "Cache lookups that found nothing or an expired entry.", "counter", () => stats().misses);
+  metrics.collect("hapta_cache_evictions_total", "Entries dropped to stay within maxEntries/maxBytes.", "counter", () => stats().evictions);
+  metrics.collect("hapta_cache_expirations_total", "Entries dropped because their TTL ran out.", "counter", () => stats().expirations);
+  metrics.collect("hapta_cache_entries", "Entries currently held.", "gauge", () => stats().entries);
+  metrics.collect("hapta_cache_bytes", "Bytes currently held, after compression.", "gauge", () => stats().bytes);
+}
+
+function hasToken(req: Request, token: string) {
+  const sent = Buffer.from(req.headers.get("authorization")?.replace(/^Bearer\s+/i, "") ?? "");
+  const expected = Buffer.from(token);
+  return sent.length === expected.length && crypto.timingSafeEqual(sent, expected);
+}
+
+/** Answers a scrape, with a 401 when `token` is configured and missing or wrong. */
+export function metricsResponse(req: Request, config: MetricsConfig): Response {
+  if (config.token && !hasToken(req, config.token)) {
+    return new Response("Unauthorized", { status: 401, headers: { "WWW-Authenticate": 'Bearer realm="hapta-metrics"' } });
+  }
+  return new Response(metrics.render(), { headers: { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" } });
+}
@@ -0,0 +1,61 @@
+import path from "path";
+import type Context from "../../helpers/HTTP/Request/Context";
+
+export const MIDDLEWARE_FILE = "middleware.ts";
+
+/**
+ * Onion-style middleware. Call `next()` to run the rest of the chain and get
+ * its response back, then return it (changed or not) or a response of your own.
+ *
+ * Middleware written against the older signature keeps working: returning
+ * `false` answers 403, returning `true` or nothing continues the chain.
+ */
+export type Middleware<State extends Record<string, any> = Record<string, any>> = (
+  ctx: Context<State>,
+  next: () => Promise<Response>
+) => Promise<Response | boolean | void> | Response | boolean | void;
+
+/** Identity helper so middleware files get `ctx` and `next` typed without annotations. */
+export function defineMiddleware<State extends Record<string, any> = Record<string, any>>(
+  middleware: Middleware<State>
+): Middleware<State> {
+  return middleware;
+}
+
+/**
+ * The `middleware.ts` files that apply to a route file, outermost first:
+ * `routes/middleware.ts`, then one per directory level down to the route's own directory.
+ */
+export function middlewareChainPaths(routesDir: string, routeFile: string): string[] {
+  const relative = path.relative(routesDir, path.dirname(routeFile));
+  const segments = relative ? relative.split(path.sep) : [];
+  const paths = [path.join(routesDir, MIDDLEWARE_FILE)];
+  for (let i = 1; i <= segments.length; i++) {
+    paths.push(path.join(routesDir, ...segments.slice(0, i), MIDDLEWARE_FILE));
+  }
+  return paths;
+}
+
+/** Runs `handler` wrapped in `middlewares`, the first one being the outermost. */
+export function runMiddleware(
+  middlewares: Middleware<any>[],
+  ctx: Context<any>,
+  handler: () => Promise<Response>
+): Promise<Response> {
+  const dispatch = async (index: number): Promise<Response> => {
+    if (index === middlewares.length) return handler();
+
+    let downstream: Promise<Response> | undefined;
+    const next = () => {
+      if (downstream) throw new Error("next() called more than once in the same middleware");
+      downstream = dispatch(index + 1);
+      return downstream;
+    };
+
+    const result = await middlewares[index](ctx, next);
+    if (result instanceof Response) return result;
+    if (result === false) return new Response("Forbidden", { status: 403 });
+    return downstream ?? next();
+  };
+  return dispatch(0);
+}
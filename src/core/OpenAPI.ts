@@ -0,0 +1,229 @@
+import * as z from "zod";
+import { HTTP_METHODS, INPUT_LOCATIONS, resolveAccess, type HttpMethod, type RouteDefinition, type RouteSchema } from "./Routes";
+
+export type OpenApiConfig = {
+  /** Where the JSON document is served. Defaults to /_hapta/openapi.json */
+  path?: string;
+  /** Serves a small HTML page listing the operations, e.g. /_hapta/docs. Off when omitted. */
+  docsPath?: string;
+  title?: string;
+  version?: string;
+  description?: string;
+  servers?: { url: string; description?: string }[];
+};
+
+export const DEFAULT_OPENAPI_PATH = "/_hapta/openapi.json";
+
+type JsonSchema = Record<string, any>;
+
+const PARAMETER_LOCATIONS = { params: "path", query: "query", headers: "header" } as const;
+
+function toJsonSchema(schema: z.ZodType, io: "input" | "output"): JsonSchema {
+  const { $schema, ...jsonSchema } = z.toJSONSchema(schema, { io, unrepresentable: "any" }) as JsonSchema;
+  return jsonSchema;
+}
+
+/** `/posts/[id]/[...rest]` becomes `/posts/{id}/{rest}`, along with the parameter names. */
+function toOpenApiPath(route: string): { path: string; pathParams: string[] } {
+  const pathParams: string[] = [];
+  const path = route.replace(/\[\[?(?:\.\.\.)?([^\]]+)\]\]?/g, (_, name: string) => {
+    pathParams.push(name);
+    return `{${name}}`;
+  });
+  return { path, pathParams };
+}
+
+function parameters(schema: RouteSchema | undefined, pathParams: string[]) {
+  const result: Record<string, any>[] = [];
+  for (const location of ["params", "query", "headers"] as const) {
+    const properties: Record<string, JsonSchema> = {};
+    let required: string[] = [];
+    const locationSchema = schema?.[location];
+    if (locationSchema) {
+      const jsonSchema = toJsonSchema(locationSchema, "input");
+      Object.assign(properties, jsonSchema.properties ?? {});
+      required = jsonSchema.required ?? [];
+    }
+    // Path parameters are documented even without a params schema.
+    if (location === "params") {
+      for (const name of pathParams) properties[name] ??= { type: "string" };
+    }
+    for (const [name, property] of Object.entries(properties)) {
+      const isPath = location === "params";
+      if (isPath && !pathParams.includes(name)) continue;
+      result.push({
+        name,
+        in: PARAMETER_LOCATIONS[location],
+        required: isPath || required.includes(name),
+        schema: property,
+        ...(property.description && { description: property.description }),
+      });
+    }
+  }
+  return result;
+}
+
+/**
+ * Methods to document. A default export answers every method, so it is only
+ * listed under methods that have a schema of their own, or under POST/GET
+ * depending on whether its schema takes a body.
+ */
+function documentedMethods(definition: RouteDefinition): HttpMethod[] {
+  const methods = new Set<HttpMethod>(HTTP_METHODS.filter((method) => definition.handlers[method]));
+  if (definition.fallback) {
+    for (const method of HTTP_METHODS) if (definition.schemas[method]) methods.add(method);
+    if (methods.size === 0) methods.add(definition.fallbackSchema?.body ? "POST" : "GET");
+  }
+  return HTTP_METHODS.filter((method) => methods.has(method));
+}
+
+function operation(route: string, method: HttpMethod, definition: RouteDefinition, pathParams: string[]) {
+  const schema = definition.schemas[method] ?? definition.fallbackSchema;
+  const op: Record<string, any> = {
+    operationId: `${method.toLowerCase()}${route.replace(/[^a-zA-Z0-9]+(.)?/g, (_, c?: string) => (c ? c.toUpperCase() : ""))}`,
+    tags: [route.split("/")[1] || "root"],
+    parameters: parameters(schema, pathParams),
+    responses: {} as Record<string, any>,
+  };
+
+  if (schema?.body) {
+    op.requestBody = { required: true, content: { "application/json": { schema: toJsonSchema(schema.body, "input") } } };
+  }
+
+  for (const [status, responseSchema] of Object.entries(schema?.response ?? {})) {
+    op.responses[status] = {
+      description: `${status} response`,
+      content: { "application/json": { schema: toJsonSchema(responseSchema, "output") } },
+    };
+  }
+  if (Object.keys(op.responses).length === 0) op.responses["200"] = { description: "Successful response" };
+  if (schema && INPUT_LOCATIONS.some((location) => schema[location])) {
+    op.responses["400"] ??= { $ref: "#/components/responses/ValidationError" };
+  }
+
+  const access = resolveAccess(definition, method);
+  if (access && access.auth !== false) {
+    op.security = [{ bearerAuth: [] }];
+    op.responses["401"] ??= { description: "Not authenticated" };
+    if (access.roles?.length || access.clearance !== undefined || access.owner) {
+      op.responses["403"] ??= { description: "Not allowed" };
+      const owner = typeof access.owner === "string" ? access.owner : access.owner?.param;
+      const requirements = [
+        access.roles?.length && `one of the roles ${access.roles.join(", ")}`,
+        access.clearance !== undefined && `clearance >= ${access.clearance}`,
+        owner && `being the owner ({${owner}} is the caller's ID)`,
+      ].filter(Boolean);
+      op.description = `Requires ${requirements.join(" and ")}.`;
+    }
+  }
+  return op;
+}
+
+/** Builds an OpenAPI 3.1 document from the loaded routes and their schemas. */
+export function buildOpenApiDocument(routes: Map<string, RouteDefinition>, options: OpenApiConfig = {}) {
+  const paths: Record<string, Record<string, any>> = {};
+  for (const [route, definition] of [...routes].sort(([a], [b]) => a.localeCompare(b))) {
+    const { path, pathParams } = toOpenApiPath(route);
+    for (const method of documentedMethods(definition)) {
+      (paths[path] ??= {})[method.toLowerCase()] = operation(route, method, definition, pathParams);
+    }
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: options.title ?? "Hapta API",
+      version: options.version ?? "1.0.0",
+      ...(options.description && { description: options.description }),
+    },
+    ...(options.servers && { servers: options.servers }),
+    paths,
+    components: {
+      securitySchemes: { bearerAuth: { type: "http", scheme: "bearer", bearerFormat: "JWT" } },
+      responses: {
+        ValidationError: {
+          description: "The request did not match the route's schema",
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: {
+                  success: { const: false },
+                  error: {
+                    type: "object",
+                    properties: {
+                      message: { type: "string" },
+                      issues: {
+                        type: "array",
+                        items: {
+                          type: "object",
+                          properties: {
+                            location: { enum: [...INPUT_LOCATIONS] },
+                            path: { type: "array", items: { type: ["string", "number"] } },
+                            message: { type: "string" },
+                            code: { type: "string" },
+                          },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  };
+}
+
+const HTML_ESCAPES: Record<string, string> = { "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" };
+
+/** Makes configured text safe to place in HTML text and attribute values. */
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]!);
+}
+
+/** A self-contained page (no CDN) that fetches the document and lists every operation. */
+export function renderDocsPage(specPath: string, title = "Hapta API"): string {
+  const safeTitle = escapeHtml(title);
+  const safePath = escapeHtml(specPath);
+  return `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${safeTitle}</title>
+<style>
+  body { font-family: system-ui, sans-serif; max-width: 960px; margin: 2rem auto; padding: 0 1rem; color: #222; }
+  details { border: 1px solid #ddd; border-radius: 6px; margin: .5rem 0; padding: .5rem .75rem; }
+  summary { cursor: pointer; font-family: ui-monospace, monospace; }
+  .method { display: inline-block; width: 4.5rem; font-weight: bold; text-transform: uppercase; }
+  pre { background: #f6f8fa; padding: .75rem; overflow: auto; border-radius: 4px; }
+</style>
+</head>
+<body>
+<h1 id="title">${safeTitle}</h1>
+<p><a href="${safePath}">${safePath}</a></p>
+<div id="operations"></div>
+<script>
+fetch(${JSON.stringify(specPath).replace(/</g, "\\u003c")}).then((res) => res.json()).then((doc) => {
+  document.getElementById("title").textContent = doc.info.title + " " + doc.info.version;
+  const root = document.getElementById("operations");
+  for (const [path, item] of Object.entries(doc.paths)) {
+    for (const [method, op] of Object.entries(item)) {
+      const details = document.createElement("details");
+      const summary = document.createElement("summary");
+      summary.innerHTML = '<span class="method"></span><span class="path"></span>';
+      summary.querySelector(".method").textContent = method;
+      summary.querySelector(".path").textContent = path + (op.security ? "  🔒" : "");
+      const body = document.createElement("pre");
+      body.textContent = JSON.stringify({ description: op.description, parameters: op.parameters, requestBody: op.requestBody, responses: op.responses }, null, 2);
+      details.append(summary, body);
+      root.append(details);
+    }
+  }
+});
+</script>
+</body>
+</html>`;
+}
@@ -0,0 +1,196 @@
+import type Context from "../../helpers/HTTP/Request/Context";
+import type { StateStore } from "./CacheStore";
+import { withHeaders } from "../../helpers/HTTP/Response/Headers";
+
+/**
+ * Who shares a budget. "principal" and custom keys fall back to the client IP
+ * when there is no user or the function answers nothing.
+ */
+export type RateLimitKey = "ip" | "principal" | "tenant" | ((ctx: Context) => string | undefined | null);
+
+/** Set as `rateLimit` in `hapta.config.json`, exported as `rateLimit` from a route file or passed to `defineRoute`. */
+export type RateLimitRule = {
+  /** Defaults to "sliding-window". */
+  algorithm?: "sliding-window" | "token-bucket";
+  /** sliding-window: requests per window. token-bucket: bucket size, i.e. the largest burst. */
+  limit: number;
+  /** sliding-window: window length. token-bucket: seconds an empty bucket takes to refill. */
+  windowSeconds: number;
+  /** Defaults to "ip". */
+  key?: RateLimitKey;
+  /** Rules with the same name share their counters, defaults to the route (or "global"). */
+  name?: string;
+};
+
+export type RateLimitConfig = RateLimitRule | RateLimitRule[];
+
+export type RateLimitResult = {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** Seconds until the budget is fully available again. */
+  resetSeconds: number;
+  /** Seconds until the next request would be let through, only set when denied. */
+  retryAfterSeconds?: number;
+  /** `RateLimit-Policy` value, e.g. "100;w=60". */
+  policy: string;
+};
+
+export type RateLimitedBody = {
+  success: false;
+  error: { code: "rate_limited"; message: string; retryAfter: number };
+};
+
+type WindowState = { start: number; count: number; previous: number };
+type BucketState = { tokens: number; updatedAt: number };
+
+/** Rules that only need the client IP, so they can be counted before the tenant is resolved. */
+export function isIpKeyed(rule: RateLimitRule): boolean {
+  return (rule.key ?? "ip") === "ip";
+}
+
+/** A single rule as a list of one. */
+export function toRules(config: RateLimitConfig | undefined): RateLimitRule[] {
+  if (!config) return [];
+  return Array.isArray(config) ? config : [config];
+}
+
+function subjectFor(key: RateLimitKey = "ip", ctx: Context): string {
+  const ip = `ip:${ctx.metadata.ipAddress ?? "unknown"}`;
+  if (key === "ip") return ip;
+  if (key === "principal") return ctx.principal.isAuthenticated ? `user:${ctx.principal.id}` : ip;
+  if (key === "tenant") return `tenant:${ctx.tenantId ?? "default"}`;
+  const custom = key(ctx);
+  return custom ? `custom:${custom}` : ip;
+}
+
+/**
+ * Counts requests per rule and subject in a StateStore, so nodes sharing the
+ * store (resp, or sqlite on one machine) share the budget too.
+ * Checks for the same counter run one after another on this node; across
+ * nodes the read-then-write can let a few extra requests through under load.
+ */
+export class RateLimiter {
+  private queues = new Map<string, Promise<unknown>>();
+
+  constructor(private store: StateStore, private prefix = "ratelimit:") {}
+
+  /**
+   * Charges one request against every rule. Answers the first denial, or the
+   * tightest result when all of them allow it, undefined without rules.
+   */
+  public async check(rules: RateLimitRule[], scope: string, ctx: Context): Promise<RateLimitResult | undefined> {
+    let tightest: RateLimitResult | undefined;
+    for (const rule of rules) {
+      const key = `${this.prefix}${rule.name ?? scope}:${subjectFor(rule.key, ctx)}`;
+      const result = await this.exclusive(key, () =>
+        rule.algorithm === "token-bucket" ? this.takeToken(key, rule) : this.countInWindow(key, rule)
+      );
+      if (!result.allowed) return result;
+      tightest = tighter(tightest, result);
+    }
+    return tightest;
+  }
+
+  /** `check` for IP-keyed rules, usable before there is a Context. */
+  public checkIp(rules: RateLimitRule[], scope: string, ipAddress: string | undefined): Promise<RateLimitResult | undefined> {
+    return this.check(rules, scope, { metadata: { ipAddress } } as Context);
+  }
+
+  /** Runs `task` once every earlier task for `key` on this node has settled. */
+  private exclusive<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const run = (this.queues.get(key) ?? Promise.resolve()).then(task, task);
+    const tail = run.catch(() => undefined);
+    this.queues.set(key, tail);
+    tail.then(() => {
+      if (this.queues.get(key) === tail) this.queues.delete(key);
+    });
+    return run;
+  }
+
+  /**
+   * Sliding window, approximated from two fixed windows: the previous window's
+   * count is weighted by how much of it still overlaps the sliding one.
+   */
+  private async countInWindow(key: string, rule: RateLimitRule): Promise<RateLimitResult> {
+    const now = Date.now();
+    const windowMs = rule.windowSeconds * 1000;
+    const start = Math.floor(now / windowMs) * windowMs;
+    const state = await this.store.get<WindowState>(key);
+
+    let count = 0;
+    let previous = 0;
+    if (state?.start === start) ({ count, previous } = state);
+    else if (state?.start === start - windowMs) previous = state.count;
+
+    const elapsed = now - start;
+    const used = previous * (1 - elapsed / windowMs) + count;
+    const resetSeconds = Math.ceil((windowMs - elapsed) / 1000);
+    const policy = `${rule.limit};w=${rule.windowSeconds}`;
+
+    if (used + 1 > rule.limit) {
+      // Either this window alone is full, or wait until enough of the previous one slid out.
+      const waitMs = count + 1 > rule.limit ? windowMs - elapsed : windowMs * (1 - (rule.limit - count - 1) / previous) - elapsed;
+      return { allowed: false, limit: rule.limit, remaining: 0, resetSeconds, retryAfterSeconds: Math.max(1, Math.ceil(waitMs / 1000)), policy };
+    }
+
+    await this.store.set(key, { start, count: count + 1, previous } satisfies WindowState, Math.ceil((2 * windowMs) / 1000));
+    return { allowed: true, limit: rule.limit, remaining: Math.max(0, Math.floor(rule.limit - used - 1)), resetSeconds, policy };
+  }
+
+  /** Token bucket holding `limit` tokens, refilled evenly over `windowSeconds`. */
+  private async takeToken(key: string, rule: RateLimitRule): Promise<RateLimitResult> {
+    const now = Date.now();
+    const perMs = rule.limit / (rule.windowSeconds * 1000);
+    const state = await this.store.get<BucketState>(key);
+    let tokens = state ? Math.min(rule.limit, state.tokens + (now - state.updatedAt) * perMs) : rule.limit;
+    const policy = `${rule.limit};w=${rule.windowSeconds}`;
+
+    if (tokens < 1) {
+      return {
+        allowed: false,
+        limit: rule.limit,
+        remaining: 0,
+        resetSeconds: Math.ceil((rule.limit - tokens) / perMs / 1000),
+        retryAfterSeconds: Math.max(1, Math.ceil((1 - tokens) / perMs / 1000)),
+        policy,
+      };
+    }
+
+    tokens -= 1;
+    // A bucket left alone for a full window is full again, which is what a missing entry means.
+    await this.store.set(key, { tokens, updatedAt: now } satisfies BucketState, Math.ceil(rule.windowSeconds));
+    return { allowed: true, limit: rule.limit, remaining: Math.floor(tokens), resetSeconds: Math.ceil((rule.limit - tokens) / perMs / 1000), policy };
+  }
+}
+
+/** The result with less budget left, the one worth reporting to the client. */
+export function tighter(a: RateLimitResult | undefined, b: RateLimitResult | undefined): RateLimitResult | undefined {
+  if (!a || !b) return a ?? b;
+  return b.remaining < a.remaining ? b : a;
+}
+
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  return {
+    "RateLimit-Limit": String(result.limit),
+    "RateLimit-Remaining": String(result.remaining),
+    "RateLimit-Reset": String(result.resetSeconds),
+    "RateLimit-Policy": result.policy,
+    ...(result.retryAfterSeconds !== undefined && { "Retry-After": String(result.retryAfterSeconds) }),
+  };
+}
+
+/** The 429 sent when a rule denies the request. */
+export function rateLimitedResponse(result: RateLimitResult): Response {
+  const retryAfter = result.retryAfterSeconds ?? result.resetSeconds;
+  const body: RateLimitedBody = {
+    success: false,
+    error: { code: "rate_limited", message: `Too many requests, retry in ${retryAfter}s`, retryAfter },
+  };
+  return Response.json(body, { status: 429, headers: rateLimitHeaders(result) });
+}
+
+/** Adds the RateLimit-* headers to a response. */
+export function withRateLimitHeaders(response: Response, result: RateLimitResult): Response {
+  return withHeaders(response, rateLimitHeaders(result));
+}
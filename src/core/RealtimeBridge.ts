@@ -0,0 +1,135 @@
+import type Pocketbase from "pocketbase";
+import { logger } from "./Logger";
+
+const log = logger.child({ component: "RealtimeBridge" });
+
+export type RealtimeAction = "create" | "update" | "delete";
+
+export type RealtimeEvent = {
+  collection: string;
+  action: RealtimeAction;
+  record: { id: string; collectionName?: string; [field: string]: any };
+};
+
+export type RealtimeBridgeOptions = {
+  /** Called for every record event PocketBase pushes. */
+  onEvent: (event: RealtimeEvent) => void | Promise<void>;
+  /** Called after the stream came back from a drop, events sent meanwhile are lost. */
+  onReconnect: () => void | Promise<void>;
+};
+
+const RECONNECT_MIN_MS = 500;
+const RECONNECT_MAX_MS = 30_000;
+
+type SseMessage = { event: string; data: string };
+
+/** Splits an SSE byte stream into messages, tolerating \r\n line endings and chunk boundaries anywhere. */
+async function* readSse(body: ReadableStream<Uint8Array>): AsyncGenerator<SseMessage> {
+  const decoder = new TextDecoder();
+  const reader = body.getReader();
+  let buffered = "";
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      // Normalised over the whole buffer so a \r\n split across two chunks is caught too.
+      buffered = (buffered + decoder.decode(value, { stream: true })).replace(/\r\n/g, "\n");
+      let boundary = buffered.indexOf("\n\n");
+      while (boundary !== -1) {
+        const block = buffered.slice(0, boundary);
+        buffered = buffered.slice(boundary + 2);
+        let event = "message";
+        const data: string[] = [];
+        for (const line of block.split("\n")) {
+          if (line.startsWith("event:")) event = line.slice(6).trim();
+          else if (line.startsWith("data:")) data.push(line.slice(5).replace(/^ /, ""));
+        }
+        if (data.length > 0) yield { event, data: data.join("\n") };
+        boundary = buffered.indexOf("\n\n");
+      }
+    }
+  } finally {
+    // Closes the connection when the consumer stops early, a no-op once the stream ended.
+    reader.cancel().catch(() => {});
+  }
+}
+
+/**
+ * Speaks PocketBase's realtime protocol directly: open the SSE stream, wait
+ * for PB_CONNECT, then POST the `<collection>/*` subscriptions for that client
+ * ID. Reconnects with backoff whenever the stream drops.
+ */
+export class RealtimeBridge {
+  private abort?: AbortController;
+  private stopped = false;
+  private hasConnectedBefore = false;
+  private reconnectDelay = RECONNECT_MIN_MS;
+  private reconnectTimer?: Timer;
+
+  constructor(
+    private pb: Pocketbase,
+    private collections: string[],
+    private options: RealtimeBridgeOptions
+  ) {}
+
+  public start() {
+    this.stopped = false;
+    void this.connect();
+  }
+
+  public stop() {
+    this.stopped = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.abort?.abort();
+  }
+
+  private async connect() {
+    const abort = new AbortController();
+    this.abort = abort;
+    try {
+      const res = await fetch(this.pb.buildURL("/api/realtime"), {
+        headers: { Accept: "text/event-stream" },
+        signal: abort.signal,
+      });
+      if (!res.ok || !res.body) throw new Error(`realtime stream answered ${res.status}`);
+
+      for await (const message of readSse(res.body)) {
+        if (message.event === "PB_CONNECT") {
+          const { clientId } = JSON.parse(message.data);
+          await this.subscribe(clientId, abort.signal);
+          this.reconnectDelay = RECONNECT_MIN_MS;
+          if (this.hasConnectedBefore) await this.options.onReconnect();
+          this.hasConnectedBefore = true;
+          continue;
+        }
+        const [collection] = message.event.split("/");
+        if (!this.collections.includes(collection)) continue;
+        const payload = JSON.parse(message.data);
+        await this.options.onEvent({ collection, action: payload.action, record: payload.record });
+      }
+      if (!this.stopped) log.warn("stream ended, reconnecting");
+    } catch (error) {
+      if (!this.stopped) log.warn("stream dropped, reconnecting", { error });
+    }
+    this.scheduleReconnect();
+  }
+
+  private async subscribe(clientId: string, signal: AbortSignal) {
+    const res = await fetch(this.pb.buildURL("/api/realtime"), {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.pb.authStore.token && { Authorization: this.pb.authStore.token }),
+      },
+      body: JSON.stringify({ clientId, subscriptions: this.collections.map((collection) => `${collection}/*`) }),
+      signal,
+    });
+    if (!res.ok) throw new Error(`realtime subscribe answered ${res.status}`);
+  }
+
+  private scheduleReconnect() {
+    if (this.stopped) return;
+    this.reconnectTimer = setTimeout(() => void this.connect(), this.reconnectDelay);
+    this.reconnectDelay = Math.min(this.reconnectDelay * 2, RECONNECT_MAX_MS);
+  }
+}
@@ -0,0 +1,216 @@
+import type * as z from "zod";
+import type Context from "../../helpers/HTTP/Request/Context";
+import type { DatabaseService } from "./CrudManager";
+import { toRules, type RateLimitConfig, type RateLimitRule } from "./RateLimit";
+import type { CorsPolicy } from "./Cors";
+
+export const HTTP_METHODS = ["GET", "POST", "PUT", "PATCH", "DELETE"] as const;
+export type HttpMethod = (typeof HTTP_METHODS)[number];
+
+export type RouteHandler = (ctx: Context<any, any>, db: DatabaseService) => Promise<Response> | Response;
+
+export type RouteSchema = {
+  body?: z.ZodType;
+  query?: z.ZodType;
+  headers?: z.ZodType;
+  params?: z.ZodType;
+  /** Response bodies per status code, only used for the OpenAPI document. */
+  response?: Record<number, z.ZodType>;
+};
+
+/** Exported as `access` from a route file (or passed to `defineRoute`) to describe who may call it. */
+export type RouteAccess = {
+  /** Requires an authenticated principal, defaults to true once `access` is exported. */
+  auth?: boolean;
+  /** The principal needs at least one of these roles. */
+  roles?: string[];
+  /** Minimum `highest_clearance` of the principal. */
+  clearance?: number;
+  /**
+   * Only the owner may call the route: the route param with this name has to
+   * equal the principal's ID. Holders of `bypassRoles` are let through anyway.
+   */
+  owner?: string | { param: string; bypassRoles?: string[] };
+};
+
+/** One policy for the whole route, or one per method. */
+export type RouteAccessExport = RouteAccess | Partial<Record<HttpMethod | "HEAD", RouteAccess>>;
+
+/** Exported as `rateLimit` from a route file, on top of the global rules. One set for the whole route, or one per method. */
+export type RouteRateLimitExport = RateLimitConfig | Partial<Record<HttpMethod | "HEAD", RateLimitConfig>>;
+
+export const INPUT_LOCATIONS = ["params", "query", "headers", "body"] as const;
+export type InputLocation = (typeof INPUT_LOCATIONS)[number];
+
+type Parsed<T> = [T] extends [z.ZodType] ? z.output<T> : Record<string, any>;
+
+/** `ctx.input`, parsed by the route's schema where it has one, raw otherwise. */
+export type RouteInput<S extends RouteSchema = RouteSchema> = {
+  [L in InputLocation]: Parsed<S[L]>;
+};
+
+/** One entry of a 400 response body, `path` is relative to the location. */
+export type ValidationIssue = {
+  location: InputLocation;
+  path: (string | number)[];
+  message: string;
+  code: string;
+};
+
+export type ValidationErrorBody = {
+  success: false;
+  error: { message: string; issues: ValidationIssue[] };
+};
+
+/** What `defineRoute` returns, exported from a route file like a plain handler. */
+export type DefinedRoute<S extends RouteSchema = RouteSchema> = {
+  schema: S;
+  access?: RouteAccess;
+  rateLimit?: RateLimitConfig;
+  handler: RouteHandler;
+};
+
+/**
+ * Declares a handler together with its schema, `ctx.input` is then typed from it:
+ *
+ *     export const POST = defineRoute({
+ *       schema: { body: z.object({ title: z.string() }) },
+ *       handler: (ctx, db) => ctx.json(ctx.input.body.title),
+ *     });
+ */
+export function defineRoute<S extends RouteSchema, State extends Record<string, any> = Record<string, any>>(route: {
+  schema: S;
+  access?: RouteAccess;
+  rateLimit?: RateLimitConfig;
+  handler: (ctx: Context<State, RouteInput<S>>, db: DatabaseService) => Promise<Response> | Response;
+}): DefinedRoute<S> {
+  return route as DefinedRoute<S>;
+}
+
+function isDefinedRoute(value: any): value is DefinedRoute {
+  return Boolean(value) && typeof value === "object" && typeof value.handler === "function";
+}
+
+/**
+ * Parses every location the schema covers. Parsed values (defaults, coercions,
+ * transforms) replace the raw ones, issues from all locations are collected.
+ */
+export function validateInput(
+  schema: RouteSchema,
+  raw: RouteInput
+): { success: true; input: RouteInput } | { success: false; issues: ValidationIssue[] } {
+  const input = { ...raw };
+  const issues: ValidationIssue[] = [];
+  for (const location of INPUT_LOCATIONS) {
+    const locationSchema = schema[location];
+    if (!locationSchema) continue;
+    const result = locationSchema.safeParse(raw[location]);
+    if (result.success) {
+      input[location] = result.data as any;
+      continue;
+    }
+    for (const issue of result.error.issues) {
+      issues.push({
+        location,
+        path: issue.path.map((segment) => (typeof segment === "number" ? segment : String(segment))),
+        message: issue.message,
+        code: issue.code,
+      });
+    }
+  }
+  return issues.length > 0 ? { success: false, issues } : { success: true, input };
+}
+
+export function validationErrorBody(issues: ValidationIssue[]): ValidationErrorBody {
+  return { success: false, error: { message: "Validation failed", issues } };
+}
+
+/**
+ * What a route file and its schema file provide, per method.
+ * Named exports (`GET`, `POST`, ...) win, the default export answers every other method.
+ * A schema given through `defineRoute` wins over the schemas/ file.
+ */
+export type RouteDefinition = {
+  handlers: Partial<Record<HttpMethod | "HEAD", RouteHandler>>;
+  fallback?: RouteHandler;
+  schemas: Partial<Record<HttpMethod | "HEAD", RouteSchema>>;
+  fallbackSchema?: RouteSchema;
+  access: Partial<Record<HttpMethod | "HEAD", RouteAccess>>;
+  fallbackAccess?: RouteAccess;
+  rateLimits: Partial<Record<HttpMethod | "HEAD", RateLimitRule[]>>;
+  fallbackRateLimits?: RateLimitRule[];
+  /** The route's `cors` export, merged over the global policy. */
+  cors?: CorsPolicy | false;
+};
+
+/** Builds a RouteDefinition from an imported route module and (optionally) its schema module. */
+export function defineRouteFromModules(routeModule: any, schemaModule?: any): RouteDefinition {
+  const definition: RouteDefinition = { handlers: {}, schemas: {}, access: {}, rateLimits: {} };
+  const accessExport: RouteAccessExport | undefined = routeModule.access;
+  const perMethodAccess = accessExport && [...HTTP_METHODS, "HEAD"].some((method) => method in accessExport);
+  const rateLimitExport: RouteRateLimitExport | undefined = routeModule.rateLimit;
+  const perMethodRateLimit =
+    rateLimitExport && !Array.isArray(rateLimitExport) && [...HTTP_METHODS, "HEAD"].some((method) => method in rateLimitExport);
+  for (const method of [...HTTP_METHODS, "HEAD"] as const) {
+    const exported = routeModule[method];
+    if (typeof exported === "function") definition.handlers[method] = exported;
+    if (isDefinedRoute(exported)) definition.handlers[method] = exported.handler;
+    const schema = isDefinedRoute(exported) ? exported.schema : schemaModule?.[method];
+    if (schema) definition.schemas[method] = schema;
+    const access = (isDefinedRoute(exported) && exported.access) || (perMethodAccess && (accessExport as any)[method]);
+    if (access) definition.access[method] = access;
+    const rateLimit = (isDefinedRoute(exported) && exported.rateLimit) || (perMethodRateLimit && (rateLimitExport as any)[method]);
+    if (rateLimit) definition.rateLimits[method] = toRules(rateLimit);
+  }
+  const fallback = routeModule.default;
+  if (typeof fallback === "function") definition.fallback = fallback;
+  if (isDefinedRoute(fallback)) definition.fallback = fallback.handler;
+  const fallbackSchema = isDefinedRoute(fallback) ? fallback.schema : schemaModule?.default;
+  if (fallbackSchema) definition.fallbackSchema = fallbackSchema;
+  const fallbackAccess = (isDefinedRoute(fallback) && fallback.access) || (!perMethodAccess && accessExport);
+  if (fallbackAccess) definition.fallbackAccess = fallbackAccess as RouteAccess;
+  const fallbackRateLimit = (isDefinedRoute(fallback) && fallback.rateLimit) || (!perMethodRateLimit && rateLimitExport);
+  if (fallbackRateLimit) definition.fallbackRateLimits = toRules(fallbackRateLimit as RateLimitConfig);
+  if (routeModule.cors !== undefined) definition.cors = routeModule.cors;
+  return definition;
+}
+
+/** True when the route answers plain HTTP requests at all (a route file may only export a websocket handler). */
+export function hasHttpHandlers(definition: RouteDefinition): boolean {
+  return Boolean(definition.fallback) || Object.keys(definition.handlers).length > 0;
+}
+
+/** The handler for a method, HEAD falls back to GET (the dispatcher drops the body). */
+export function resolveHandler(definition: RouteDefinition, method: string): RouteHandler | undefined {
+  const upper = method.toUpperCase() as HttpMethod | "HEAD";
+  if (upper === "HEAD") return definition.handlers.HEAD ?? definition.handlers.GET ?? definition.fallback;
+  return definition.handlers[upper] ?? definition.fallback;
+}
+
+export function resolveSchema(definition: RouteDefinition, method: string): RouteSchema | undefined {
+  const upper = method.toUpperCase() as HttpMethod | "HEAD";
+  if (upper === "HEAD") return definition.schemas.HEAD ?? definition.schemas.GET ?? definition.fallbackSchema;
+  return definition.schemas[upper] ?? definition.fallbackSchema;
+}
+
+export function resolveAccess(definition: RouteDefinition, method: string): RouteAccess | undefined {
+  const upper = method.toUpperCase() as HttpMethod | "HEAD";
+  if (upper === "HEAD") return definition.access.HEAD ?? definition.access.GET ?? definition.fallbackAccess;
+  return definition.access[upper] ?? definition.fallbackAccess;
+}
+
+/** The route's own rate limit rules for a method, empty when only the global ones apply. */
+export function resolveRateLimits(definition: RouteDefinition, method: string): RateLimitRule[] {
+  const upper = method.toUpperCase() as HttpMethod | "HEAD";
+  if (upper === "HEAD") return definition.rateLimits.HEAD ?? definition.rateLimits.GET ?? definition.fallbackRateLimits ?? [];
+  return definition.rateLimits[upper] ?? definition.fallbackRateLimits ?? [];
+}
+
+/** Methods the route answers, for the Allow header. */
+export function allowedMethods(definition: RouteDefinition): string[] {
+  if (definition.fallback) return [...HTTP_METHODS, "HEAD", "OPTIONS"];
+  const methods: string[] = HTTP_METHODS.filter((method) => definition.handlers[method]);
+  if (definition.handlers.GET || definition.handlers.HEAD) methods.push("HEAD");
+  methods.push("OPTIONS");
+  return methods;
+}
@@ -0,0 +1,194 @@
+import Pocketbase from "pocketbase";
+import { CloverClient, CloverError, type CloverClientOptions, type CloverTokenClaims, type TokenService } from "./Clover";
+import type { CacheStore } from "./CacheStore";
+import { NamespacedCacheStore } from "./CacheStore/NamespacedStore";
+import { DatabaseService, type DatabaseOptions } from "./CrudManager";
+import { logger } from "./Logger";
+import { tenantTopic } from "./Topics";
+
+const log = logger.child({ component: "TenantRegistry" });
+
+/** Settings a tenant can have apart from the primary one, keyed by tenant ID in `tenants.overrides`. */
+export type TenantOverrides = {
+  /** Gives the tenant its own PocketBase instead of the shared one. */
+  DatabaseUrl?: string;
+  ADMIN_EMAIL?: string;
+  ADMIN_PASSWORD?: string;
+  Clover_Secret?: string;
+};
+
+export type TenantsConfig = {
+  /** Seconds tenant metadata is reused before it is fetched again in the background, defaults to 300. */
+  refreshSeconds?: number;
+  /** When set, only these tenant IDs (and the primary one) are served. */
+  allowed?: string[];
+  overrides?: Record<string, TenantOverrides>;
+};
+
+/** Everything a request needs that depends on its tenant. */
+export type Tenant = {
+  id: string;
+  clover: CloverClient;
+  /**
+   * Own PocketBase connection when configured. Other than the primary tenant's, it
+   * caches under `tenant:<id>:`. Every tenant's change topics go out as `tenant:<id>:<collection>`.
+   */
+  db: DatabaseService;
+};
+
+export type TenantRegistryOptions = {
+  primaryTenantId: string;
+  serverUrl: string;
+  secret: string;
+  tokens: TokenService<CloverTokenClaims>;
+  pb: Pocketbase;
+  cache: CacheStore;
+  /** The primary tenant's database service, it keeps the root cache namespace. */
+  primaryDb: DatabaseService;
+  databaseOptions?: DatabaseOptions;
+  /** Collections whose realtime events invalidate each tenant's cache. */
+  realtimeCollections?: string[];
+  config?: TenantsConfig;
+  /** Passed to every CloverClient, e.g. FakeClover's `fetch` in tests. */
+  fetch?: CloverClientOptions["fetch"];
+};
+
+/** Thrown when a request names a tenant that cannot be served, carries the status to answer with. */
+export class TenantResolutionError extends Error {
+  constructor(message: string, public status: 400 | 403 | 404 | 502, public code: string) {
+    super(message);
+    this.name = "TenantResolutionError";
+  }
+}
+
+type Entry = { tenant: Tenant; loadedAt: number; refreshing?: Promise<void> };
+
+const DEFAULT_REFRESH_SECONDS = 300;
+/** How long a tenant Clover did not know is remembered, so unknown IDs cannot hammer Clover. */
+const NEGATIVE_CACHE_MS = 30_000;
+/** At most this many unknown IDs are remembered, the oldest goes first. */
+const MAX_UNKNOWN_TENANTS = 1000;
+/** Tenant IDs end up in Clover URLs, anything else is refused before Clover is asked. */
+const TENANT_ID = /^[\w-]{1,64}$/;
+
+/**
+ * Resolves the `tenantid` header to a Tenant. Metadata is loaded from Clover on
+ * first use, reused for `refreshSeconds` and then refreshed in the background
+ * while the old copy keeps serving. Concurrent first requests share one load.
+ */
+export class TenantRegistry {
+  private entries = new Map<string, Entry>();
+  private loading = new Map<string, Promise<Tenant>>();
+  private unknown = new Map<string, number>();
+
+  constructor(private options: TenantRegistryOptions) {}
+
+  public get primaryTenantId() {
+    return this.options.primaryTenantId;
+  }
+
+  /** The tenant for a request, the primary tenant when the header is absent. */
+  public async resolve(tenantId?: string | null): Promise<Tenant> {
+    const id = tenantId?.trim() || this.options.primaryTenantId;
+    if (id !== this.options.primaryTenantId && !TENANT_ID.test(id)) {
+      throw new TenantResolutionError("Unknown tenant", 404, "unknown_tenant");
+    }
+    const allowed = this.options.config?.allowed;
+    if (allowed && id !== this.options.primaryTenantId && !allowed.includes(id)) {
+      throw new TenantResolutionError(`Tenant "${id}" is not served here`, 403, "tenant_not_allowed");
+    }
+
+    const entry = this.entries.get(id);
+    if (entry) {
+      if (Date.now() - entry.loadedAt > this.refreshMs && !entry.refreshing) {
+        entry.refreshing = this.refresh(id, entry);
+      }
+      return entry.tenant;
+    }
+
+    const unknownUntil = this.unknown.get(id);
+    if (unknownUntil) {
+      if (unknownUntil > Date.now()) throw new TenantResolutionError(`Unknown tenant "${id}"`, 404, "unknown_tenant");
+      this.unknown.delete(id);
+    }
+
+    let pending = this.loading.get(id);
+    if (!pending) {
+      pending = this.load(id).finally(() => this.loading.delete(id));
+      this.loading.set(id, pending);
+    }
+    return pending;
+  }
+
+  private get refreshMs() {
+    return (this.options.config?.refreshSeconds ?? DEFAULT_REFRESH_SECONDS) * 1000;
+  }
+
+  private loadClover(id: string) {
+    return CloverClient.load({
+      serverUrl: this.options.serverUrl,
+      secret: this.options.config?.overrides?.[id]?.Clover_Secret ?? this.options.secret,
+      tenantId: id,
+      tokens: this.options.tokens,
+      fetch: this.options.fetch,
+    });
+  }
+
+  private async load(id: string): Promise<Tenant> {
+    let clover: CloverClient;
+    try {
+      clover = await this.loadClover(id);
+    } catch (error) {
+      if (error instanceof CloverError && error.status === 404) {
+        this.rememberUnknown(id);
+        throw new TenantResolutionError(`Unknown tenant "${id}"`, 404, "unknown_tenant");
+      }
+      throw new TenantResolutionError(`Could not load tenant "${id}": ${(error as Error).message}`, 502, "tenant_unavailable");
+    }
+
+    const tenant: Tenant = { id, clover, db: await this.createDatabase(id) };
+    this.entries.set(id, { tenant, loadedAt: Date.now() });
+    return tenant;
+  }
+
+  /** Entries all live equally long, so the first one in the Map is the oldest. */
+  private rememberUnknown(id: string) {
+    if (this.unknown.size >= MAX_UNKNOWN_TENANTS) {
+      this.unknown.delete(this.unknown.keys().next().value!);
+    }
+    this.unknown.set(id, Date.now() + NEGATIVE_CACHE_MS);
+  }
+
+  /** Swaps in fresh Clover metadata, the database service and its cache stay. */
+  private async refresh(id: string, entry: Entry) {
+    try {
+      entry.tenant.clover = await this.loadClover(id);
+    } catch (error) {
+      log.warn(`refreshing tenant ${id} failed, keeping the previous metadata`, { error });
+    } finally {
+      entry.loadedAt = Date.now();
+      entry.refreshing = undefined;
+    }
+  }
+
+  private async createDatabase(id: string): Promise<DatabaseService> {
+    if (id === this.options.primaryTenantId) return this.options.primaryDb;
+    const overrides = this.options.config?.overrides?.[id];
+    let pb = this.options.pb;
+    if (overrides?.DatabaseUrl) {
+      pb = new Pocketbase(overrides.DatabaseUrl);
+      if (overrides.ADMIN_EMAIL && overrides.ADMIN_PASSWORD) {
+        try {
+          await pb.collection("_superusers").authWithPassword(overrides.ADMIN_EMAIL, overrides.ADMIN_PASSWORD);
+        } catch (error) {
+          log.warn(`admin login for tenant ${id} failed`, { error });
+        }
+      }
+    }
+
+    const cache = new NamespacedCacheStore(this.options.cache, `tenant:${id}:`);
+    const db = new DatabaseService(pb, cache, { ...this.options.databaseOptions, topicPrefix: tenantTopic(id) });
+    if (this.options.realtimeCollections?.length) db.subscribeToRealtime(this.options.realtimeCollections);
+    return db;
+  }
+}
@@ -0,0 +1,130 @@
+import type { CloverTenant, CloverUserRecord } from "../Clover";
+
+/** A user FakeClover can sign in. With `mfaCode`, password logins answer `mfa_required` first. */
+export type FakeCloverUser = CloverUserRecord & { password: string; mfaCode?: string };
+
+export type FakeCloverOptions = {
+  url?: string;
+  /** What every call must send as Authorization_Secret, defaults to "test-secret". */
+  secret?: string;
+  tenants?: CloverTenant[];
+  users?: FakeCloverUser[];
+};
+
+type Answer = { status: number; body: unknown };
+
+function publicRecord({ password, mfaCode, ...record }: FakeCloverUser): CloverUserRecord {
+  return record;
+}
+
+function denied(message = "Invalid credentials"): Answer {
+  return { status: 401, body: { message } };
+}
+
+/**
+ * An in-memory Clover for tests, handed to CloverClient as its `fetch`. It
+ * serves tenants, signups and the password, MFA, OTP and OAuth logins from the
+ * tenants and users it was given. OTP codes are not sent anywhere: after
+ * `RequestOtp`, `otpCode` is the code that signs the user in.
+ */
+export class FakeClover {
+  public readonly url: string;
+  public readonly secret: string;
+  /** The code every requested OTP gets. */
+  public otpCode = "123456";
+  /** Every call Hapta made, oldest first. */
+  public readonly calls: { method: string; path: string; body?: Record<string, any> }[] = [];
+  private tenants = new Map<string, CloverTenant>();
+  private users = new Map<string, FakeCloverUser>();
+  private otpRequested = new Set<string>();
+
+  constructor(options: FakeCloverOptions = {}) {
+    this.url = options.url ?? "http://clover.test";
+    this.secret = options.secret ?? "test-secret";
+    for (const tenant of options.tenants ?? []) this.addTenant(tenant);
+    for (const user of options.users ?? []) this.addUser(user);
+  }
+
+  public addTenant(tenant: CloverTenant) {
+    this.tenants.set(tenant.id, tenant);
+  }
+
+  public hasTenant(id: string) {
+    return this.tenants.has(id);
+  }
+
+  public addUser(user: FakeCloverUser) {
+    this.users.set(user.id, user);
+  }
+
+  /** Answers CloverClient's requests, pass it as the client's `fetch`. */
+  public readonly fetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const url = new URL(input instanceof Request ? input.url : String(input));
+    const method = (init?.method ?? "GET").toUpperCase();
+    const body = typeof init?.body === "string" ? JSON.parse(init.body) : undefined;
+    this.calls.push({ method, path: url.pathname, ...(body && { body }) });
+
+    const secret = new Headers(init?.headers).get("Authorization_Secret");
+    const { status, body: answer } = secret === this.secret ? this.answer(method, url.pathname, body ?? {}) : denied("Invalid tenant secret");
+    return Response.json(answer, { status });
+  };
+
+  private answer(method: string, path: string, body: Record<string, any>): Answer {
+    const tenant = /^\/tenants\/([^/]+)$/.exec(path);
+    if (tenant && method === "GET") {
+      const found = this.tenants.get(decodeURIComponent(tenant[1]!));
+      return found ? { status: 200, body: found } : { status: 404, body: { message: "Tenant not found" } };
+    }
+    if (method !== "POST") return { status: 404, body: { message: "Not found" } };
+
+    switch (path) {
+      case "/auth/signup":
+        return this.signup(body.record ?? {});
+      case "/oauth/token":
+        return this.token(body);
+      case "/auth/otp":
+        this.otpRequested.add(body.email);
+        return { status: 200, body: { sent: true } };
+      case "/auth/mfa/challenge":
+        return this.users.has(body.userId) ? { status: 200, body: { sent: true } } : { status: 404, body: { message: "User not found" } };
+    }
+    return { status: 404, body: { message: "Not found" } };
+  }
+
+  private signup(record: Record<string, any>): Answer {
+    const taken = [...this.users.values()].some((user) => user.email === record.email || user.username === record.username);
+    if (taken) return { status: 400, body: { message: "Email or username is already taken" } };
+    const user: FakeCloverUser = { ...record, id: record.id ?? crypto.randomUUID(), created: new Date().toISOString(), password: record.password };
+    this.addUser(user);
+    return { status: 200, body: { record: publicRecord(user) } };
+  }
+
+  private token(body: Record<string, any>): Answer {
+    const users = [...this.users.values()];
+    switch (body.type) {
+      case "passwordAuth": {
+        const user = users.find((user) => user.email === body.emailOrUsername || user.username === body.emailOrUsername);
+        if (!user || user.password !== body.password) return denied();
+        if (user.mfaCode) return { status: 200, body: { mfa_required: true, userId: user.id } };
+        return { status: 200, body: { AuthenticatedModal: publicRecord(user) } };
+      }
+      case "mfa": {
+        const user = this.users.get(body.userId);
+        if (!user?.mfaCode || user.mfaCode !== body.mfaCode) return denied("Invalid MFA code");
+        return { status: 200, body: { AuthenticatedModal: publicRecord(user) } };
+      }
+      case "otp": {
+        const user = users.find((user) => user.email === body.email);
+        if (!user || !this.otpRequested.has(body.email) || body.otpCode !== this.otpCode) return denied("Invalid one-time code");
+        this.otpRequested.delete(body.email);
+        return { status: 200, body: { AuthenticatedModal: publicRecord(user) } };
+      }
+      case "oauth": {
+        const user = this.users.get(body.authenticated_id);
+        if (!user || body.client_secret !== this.secret) return denied();
+        return { status: 200, body: { AuthenticatedModal: publicRecord(user) } };
+      }
+    }
+    return { status: 400, body: { message: `Unsupported authentication type "${body.type}"` } };
+  }
+}
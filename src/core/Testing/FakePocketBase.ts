@@ -0,0 +1,335 @@
+import Pocketbase from "pocketbase";
+
+/** A stored record, with the fields PocketBase adds to every one. */
+export type FakeRecord = {
+  id: string;
+  collectionId: string;
+  collectionName: string;
+  created: string;
+  updated: string;
+  [field: string]: any;
+};
+
+type Answer = { status: number; body?: unknown };
+
+/** Becomes PocketBase's error body, `{ status, message, data }`. */
+class FakeError extends Error {
+  constructor(public status: number, message: string, public data: Record<string, unknown> = {}) {
+    super(message);
+  }
+}
+
+const NOT_FOUND = "The requested resource wasn't found.";
+const RECORDS_PATH = /^\/api\/collections\/([^/]+)\/records(?:\/([^/]+))?$/;
+
+function generateId() {
+  const alphabet = "abcdefghijklmnopqrstuvwxyz0123456789";
+  return Array.from(crypto.getRandomValues(new Uint8Array(15)), (byte) => alphabet[byte % alphabet.length]).join("");
+}
+
+/** JSON bodies as they are, multipart ones with their `@jsonPayload` merged in and files kept by name. */
+function readBody(body: unknown): Record<string, any> {
+  if (typeof body === "string") return body ? JSON.parse(body) : {};
+  if (!(body instanceof FormData)) return {};
+  const fields: Record<string, any> = {};
+  body.forEach((value, name) => {
+    if (name === "@jsonPayload" && typeof value === "string") {
+      Object.assign(fields, JSON.parse(value));
+      return;
+    }
+    const stored = typeof value === "string" ? value : value.name;
+    if (!(name in fields)) fields[name] = stored;
+    else fields[name] = [...[fields[name]].flat(), stored];
+  });
+  return fields;
+}
+
+// --- Filters ---
+
+type Operand = { literal: unknown } | { field: string };
+
+const TOKEN = /\s*(\(|\)|&&|\|\||\?(?:!=|>=|<=|!~|=|>|<|~)|!=|>=|<=|!~|=|>|<|~|"(?:\\.|[^"\\])*"|'(?:\\.|[^'\\])*'|-?\d+(?:\.\d+)?\b|[\w.]+)/y;
+
+function tokenize(filter: string): string[] {
+  const tokens: string[] = [];
+  TOKEN.lastIndex = 0;
+  while (TOKEN.lastIndex < filter.length) {
+    if (!filter.slice(TOKEN.lastIndex).trim()) break;
+    const match = TOKEN.exec(filter);
+    if (!match) throw new FakeError(400, `Unsupported filter syntax near "${filter.slice(TOKEN.lastIndex)}"`);
+    tokens.push(match[1]!);
+  }
+  return tokens;
+}
+
+function fieldValue(record: FakeRecord, path: string): unknown {
+  return path.split(".").reduce<any>((value, key) => value?.[key], record);
+}
+
+/** Missing fields and null read as "", the way PocketBase stores empty values. */
+function normalize(value: unknown): unknown {
+  return value === undefined || value === null ? "" : value;
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  a = normalize(a);
+  b = normalize(b);
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  if (typeof a === "boolean" || typeof b === "boolean") return String(a) === String(b) ? 0 : String(a) < String(b) ? -1 : 1;
+  return String(a) < String(b) ? -1 : String(a) > String(b) ? 1 : 0;
+}
+
+function like(value: unknown, pattern: unknown): boolean {
+  const text = String(normalize(pattern));
+  const escaped = text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const source = text.includes("%") ? `^${escaped.replace(/%/g, ".*")}$` : escaped;
+  return new RegExp(source, "is").test(String(normalize(value)));
+}
+
+function matches(op: string, left: unknown, right: unknown): boolean {
+  switch (op) {
+    case "=":
+      return compareValues(left, right) === 0;
+    case "!=":
+      return compareValues(left, right) !== 0;
+    case ">":
+      return compareValues(left, right) > 0;
+    case ">=":
+      return compareValues(left, right) >= 0;
+    case "<":
+      return compareValues(left, right) < 0;
+    case "<=":
+      return compareValues(left, right) <= 0;
+    case "~":
+      return like(left, right);
+    case "!~":
+      return !like(left, right);
+  }
+  throw new FakeError(400, `Unsupported filter operator "${op}"`);
+}
+
+/**
+ * Evaluates the common subset of PocketBase's filter syntax: comparisons with
+ * `= != > >= < <= ~ !~` and their `?` any-of forms, `&&`, `||` and parentheses.
+ * Anything else (`@request`, `@now`, functions) is answered with a 400.
+ */
+function compileFilter(filter: string): (record: FakeRecord) => boolean {
+  const tokens = tokenize(filter);
+  let position = 0;
+  const peek = () => tokens[position];
+  const next = () => {
+    const token = tokens[position++];
+    if (token === undefined) throw new FakeError(400, `Unexpected end of filter "${filter}"`);
+    return token;
+  };
+
+  const operand = (): Operand => {
+    const token = next();
+    if (/^["']/.test(token)) return { literal: token.slice(1, -1).replace(/\\(.)/g, "$1") };
+    if (/^-?\d/.test(token)) return { literal: Number(token) };
+    if (token === "true" || token === "false") return { literal: token === "true" };
+    if (token === "null") return { literal: null };
+    if (/^[a-zA-Z_][\w.]*$/.test(token)) return { field: token };
+    throw new FakeError(400, `Unsupported filter operand "${token}"`);
+  };
+  const read = (side: Operand, record: FakeRecord) => ("field" in side ? fieldValue(record, side.field) : side.literal);
+
+  const comparison = (): ((record: FakeRecord) => boolean) => {
+    const left = operand();
+    const rawOp = next();
+    const right = operand();
+    const anyOf = rawOp.startsWith("?");
+    const op = anyOf ? rawOp.slice(1) : rawOp;
+    return (record) => {
+      const value = read(left, record);
+      const expected = read(right, record);
+      if (!Array.isArray(value)) return matches(op, value, expected);
+      // Multi-value fields: `?=` wants one element to match, `=` all of them.
+      if (value.length === 0) return matches(op, "", expected);
+      return anyOf ? value.some((item) => matches(op, item, expected)) : value.every((item) => matches(op, item, expected));
+    };
+  };
+
+  const primary = (): ((record: FakeRecord) => boolean) => {
+    if (peek() !== "(") return comparison();
+    next();
+    const inner = or();
+    if (next() !== ")") throw new FakeError(400, `Unbalanced parentheses in filter "${filter}"`);
+    return inner;
+  };
+
+  const and = () => {
+    const parts = [primary()];
+    while (peek() === "&&") {
+      next();
+      parts.push(primary());
+    }
+    return (record: FakeRecord) => parts.every((part) => part(record));
+  };
+
+  const or = () => {
+    const parts = [and()];
+    while (peek() === "||") {
+      next();
+      parts.push(and());
+    }
+    return (record: FakeRecord) => parts.some((part) => part(record));
+  };
+
+  const predicate = or();
+  if (position < tokens.length) throw new FakeError(400, `Unexpected "${peek()}" in filter "${filter}"`);
+  return predicate;
+}
+
+function compileSort(sort: string): (a: FakeRecord, b: FakeRecord) => number {
+  const keys = sort.split(",").map((key) => key.trim()).filter(Boolean).map((key) => {
+    if (key.startsWith("@")) throw new FakeError(400, `Unsupported sort "${key}"`);
+    const descending = key.startsWith("-");
+    return { field: key.replace(/^[-+]/, ""), direction: descending ? -1 : 1 };
+  });
+  return (a, b) => {
+    for (const { field, direction } of keys) {
+      const order = compareValues(fieldValue(a, field), fieldValue(b, field));
+      if (order !== 0) return order * direction;
+    }
+    return 0;
+  };
+}
+
+/**
+ * An in-memory PocketBase for tests. `client` is a real SDK instance whose
+ * requests are answered here instead of over the network, so DatabaseService
+ * runs its usual code: records, paginated lists with filter and sort, 404s
+ * and the batch endpoint. `expand` is ignored and uploaded files are stored by
+ * name. Tenants with their own `DatabaseUrl` still connect to that URL.
+ */
+export class FakePocketBase {
+  public readonly client: Pocketbase;
+  /** Every request the client sent, oldest first. Batched operations are listed under `/api/batch`. */
+  public readonly requests: { method: string; path: string }[] = [];
+  private collections = new Map<string, Map<string, FakeRecord>>();
+
+  constructor(public readonly url = "http://pocketbase.test") {
+    this.client = new Pocketbase(url);
+    this.client.beforeSend = (url, options) => ({ url, options: { ...options, fetch: this.fetch } });
+  }
+
+  /** Stores records as they are, e.g. before a test runs. Seed before the first read, DatabaseService caches what it reads. */
+  public seed(collection: string, records: Record<string, any>[]): FakeRecord[] {
+    return records.map((record) => this.insert(collection, record));
+  }
+
+  /** A copy of every record in `collection`, in insertion order. */
+  public records(collection: string): FakeRecord[] {
+    return [...(this.collections.get(collection)?.values() ?? [])].map((record) => structuredClone(record));
+  }
+
+  public reset() {
+    this.collections.clear();
+    this.requests.length = 0;
+  }
+
+  /** Answers the SDK's requests, set as its `fetch` through `beforeSend`. */
+  public readonly fetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const url = new URL(input instanceof Request ? input.url : String(input));
+    const method = (init?.method ?? "GET").toUpperCase();
+    this.requests.push({ method, path: url.pathname });
+    const { status, body } = this.answer(method, url, init?.body);
+    return body === undefined ? new Response(null, { status }) : Response.json(body, { status });
+  };
+
+  private answer(method: string, url: URL, body: unknown): Answer {
+    try {
+      if (url.pathname === "/api/batch" && method === "POST") return this.batch(readBody(body));
+      return this.route(method, url, readBody(body));
+    } catch (error) {
+      if (!(error instanceof FakeError)) throw error;
+      return { status: error.status, body: { status: error.status, message: error.message, data: error.data } };
+    }
+  }
+
+  private route(method: string, url: URL, body: Record<string, any>): Answer {
+    const match = RECORDS_PATH.exec(url.pathname);
+    if (!match) throw new FakeError(404, NOT_FOUND);
+    const collection = decodeURIComponent(match[1]!);
+    const id = match[2] && decodeURIComponent(match[2]);
+
+    if (!id && method === "GET") return { status: 200, body: this.list(collection, url.searchParams) };
+    if (!id && method === "POST") return { status: 200, body: this.insert(collection, body) };
+    if (id && method === "GET") return { status: 200, body: structuredClone(this.find(collection, id)) };
+    if (id && method === "PATCH") return { status: 200, body: this.patch(collection, id, body) };
+    if (id && method === "DELETE") {
+      this.find(collection, id);
+      this.collections.get(collection)!.delete(id);
+      return { status: 204 };
+    }
+    throw new FakeError(405, `Method ${method} is not supported on ${url.pathname}`);
+  }
+
+  private list(collection: string, params: URLSearchParams) {
+    const page = Math.max(1, Number(params.get("page") ?? 1));
+    const perPage = Math.max(1, Number(params.get("perPage") ?? 30));
+    let items = this.records(collection);
+    const filter = params.get("filter");
+    if (filter) items = items.filter(compileFilter(filter));
+    const sort = params.get("sort");
+    if (sort) items.sort(compileSort(sort));
+    return {
+      page,
+      perPage,
+      totalItems: items.length,
+      totalPages: Math.ceil(items.length / perPage),
+      items: items.slice((page - 1) * perPage, page * perPage),
+    };
+  }
+
+  private find(collection: string, id: string): FakeRecord {
+    const record = this.collections.get(collection)?.get(id);
+    if (!record) throw new FakeError(404, NOT_FOUND);
+    return record;
+  }
+
+  private insert(collection: string, data: Record<string, any>): FakeRecord {
+    let records = this.collections.get(collection);
+    if (!records) this.collections.set(collection, (records = new Map()));
+    const id = data.id || generateId();
+    if (records.has(id)) {
+      throw new FakeError(400, "Failed to create record.", { id: { code: "validation_not_unique", message: "Value must be unique." } });
+    }
+    const now = new Date().toISOString();
+    const record: FakeRecord = { collectionId: collection, collectionName: collection, created: now, updated: now, ...data, id };
+    records.set(id, record);
+    return structuredClone(record);
+  }
+
+  private patch(collection: string, id: string, data: Record<string, any>): FakeRecord {
+    const record = this.find(collection, id);
+    Object.assign(record, data, { id, updated: new Date().toISOString() });
+    return structuredClone(record);
+  }
+
+  /** Runs every request of a batch, or none: the records are restored when one of them fails. */
+  private batch(body: Record<string, any>): Answer {
+    const requests: { method: string; url: string; body?: Record<string, any> }[] = body.requests ?? [];
+    const snapshot = new Map([...this.collections].map(([name, records]) => [name, structuredClone(records)]));
+    const responses: Answer[] = [];
+    for (const [index, request] of requests.entries()) {
+      try {
+        responses.push(this.route(request.method.toUpperCase(), new URL(request.url, this.url), request.body ?? {}));
+      } catch (error) {
+        if (!(error instanceof FakeError)) throw error;
+        this.collections = snapshot;
+        throw new FakeError(400, "Batch transaction failed.", {
+          requests: {
+            [index]: {
+              code: "batch_request_failed",
+              message: "Batch request failed.",
+              response: { status: error.status, message: error.message, data: error.data },
+            },
+          },
+        });
+      }
+    }
+    return { status: 200, body: responses.map(({ status, body }) => ({ status, body: body ?? null })) };
+  }
+}
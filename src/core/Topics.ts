@@ -0,0 +1,60 @@
+import type { Server } from "bun";
+import { logger } from "./Logger";
+
+const log = logger.child({ component: "TopicHub" });
+
+/** What subscribers receive for every publish, over SSE and WebSockets alike. `topic` is the name without the tenant prefix. */
+export type TopicMessage<T = any> = { topic: string; data: T };
+
+type Listener = (message: TopicMessage) => void;
+
+/**
+ * In-process publish/subscribe. SSE streams register listeners here, WebSocket
+ * clients subscribe through Bun's native `ws.subscribe(topic)` and are reached
+ * through the attached server.
+ */
+export class TopicHub {
+  private server?: Server<any>;
+  private listeners = new Map<string, Set<Listener>>();
+
+  /** Lets publishes reach WebSocket clients subscribed on this server. */
+  public attach(server: Server<any>) {
+    this.server = server;
+  }
+
+  /** Returns a function that removes the listener again. */
+  public subscribe(topic: string, listener: Listener): () => void {
+    let set = this.listeners.get(topic);
+    if (!set) this.listeners.set(topic, (set = new Set()));
+    set.add(listener);
+    return () => {
+      set.delete(listener);
+      if (set.size === 0) this.listeners.delete(topic);
+    };
+  }
+
+  /** `label` is the topic name clients see, e.g. "posts" for "tenant:acme:posts". */
+  public publish<T>(topic: string, data: T, label = topic) {
+    const message: TopicMessage<T> = { topic: label, data };
+    this.server?.publish(topic, JSON.stringify(message));
+    for (const listener of this.listeners.get(topic) ?? []) {
+      try {
+        listener(message);
+      } catch (error) {
+        log.error(`listener for ${topic} failed`, { error });
+      }
+    }
+  }
+}
+
+/**
+ * The hub topic for a tenant's `topic`. Requests of every tenant, the primary
+ * one included, publish and subscribe under their own prefix, so no tenant
+ * hears another's changes.
+ */
+export function tenantTopic(tenantId: string, topic = ""): string {
+  return `tenant:${tenantId}:${topic}`;
+}
+
+/** The process-wide hub used by Context helpers and DatabaseService mutations. */
+export const topics = new TopicHub();
@@ -1,57 +1,338 @@
 // src/core/config.ts
 import fs from 'fs';
 import path from 'path';
-import os from 'os';
-
-// Define the shape of your configuration
-export interface AppConfig {
-    port: number;
-    logLevel: 'debug' | 'info' | 'warn' | 'error';
-    // Add other configuration properties here
-    origin: string,
-    AI_ENABLED: boolean,
-    Clover_Tenant_ID: string, 
-    Clover_Secret: string,
-    Clover_Server_Url: string,
-    NodeId: string,
-    JWT_SECRET: String,
-    ADMIN_EMAIL: string,
-    ADMIN_PASSWORD: string,
-    DatabaseUrl:string,
-}
-
-// Define your default configuration as a fallback
-const defaultConfig: AppConfig = {
-    port: 8080,
-    logLevel: 'info',
+import * as z from 'zod';
+import type { CacheConfig } from './CacheStore';
+import type { CacheSyncConfig } from './CacheSync';
+import type { OpenApiConfig } from './OpenAPI';
+import type { BodyLimits } from '../../helpers/HTTP/Request/Body';
+import type { TokenConfig } from './Clover/Tokens';
+import type { TenantsConfig } from './Tenants';
+import type { RateLimitConfig, RateLimitRule } from './RateLimit';
+import { logger, type LoggingConfig } from './Logger';
+import type { MetricsConfig } from './Metrics';
+import type { CorsConfig } from './Cors';
+
+/*
+ * One schema per section, typed against the module that reads it. A new
+ * section is a new key in `configSchema` below: it is then validated, typed on
+ * `config` and reachable through HAPTA_* variables like everything else.
+ */
+
+const positiveInt = z.number().int().positive();
+const sizeLimit = z.number().int().nonnegative();
+
+const cacheSchema: z.ZodType<CacheConfig> = z.object({
+    maxEntries: sizeLimit.optional(),
+    maxBytes: sizeLimit.optional(),
+    evictionPolicy: z.enum(['lru', 'lfu']).optional(),
+    nodeId: z.string().optional(),
+    store: z.enum(['memory', 'sqlite', 'resp']).optional(),
+    path: z.string().optional(),
+    url: z.string().optional(),
+    keyPrefix: z.string().optional(),
+    staleWhileRevalidate: z.record(z.string(), z.number().nonnegative()).optional(),
+});
+
+const cacheSyncTuning = {
+    heartbeatMs: positiveInt.optional(),
+    peerTimeoutMs: positiveInt.optional(),
+    recoveryPrefixes: z.array(z.string()).optional(),
 };
 
-function findAndLoadConfig(): AppConfig {
-    // 1. Look for 'hapta.config.json' in the current directory
-    const localConfigPath = path.join(process.cwd(), 'hapta.config.json');
+const cacheSyncSchema: z.ZodType<CacheSyncConfig> = z.discriminatedUnion('transport', [
+    z.object({ transport: z.literal('multicast'), group: z.string().optional(), port: positiveInt.optional(), ttl: positiveInt.optional(), interface: z.string().optional(), ...cacheSyncTuning }),
+    z.object({ transport: z.literal('unix'), path: z.string(), serveHub: z.boolean().optional(), ...cacheSyncTuning }),
+    z.object({ transport: z.literal('tcp'), host: z.string().optional(), port: positiveInt, serveHub: z.boolean().optional(), ...cacheSyncTuning }),
+]);
 
-    // Add other locations to check here if you want (e.g., home directory)
+const routePath = z.string().startsWith('/', 'must start with "/"');
 
-    try {
-        if (fs.existsSync(localConfigPath)) {
-            console.log(`Loading configuration from: ${localConfigPath}`);
-            const fileContent = fs.readFileSync(localConfigPath, 'utf-8');
-            const userConfig = JSON.parse(fileContent);
-            console.log(userConfig)
-            
-            // Merge user config with defaults, so user only has to specify what they want to change
-            return { ...defaultConfig, ...userConfig };
+const openApiSchema: z.ZodType<OpenApiConfig> = z.object({
+    path: routePath.optional(),
+    docsPath: routePath.optional(),
+    title: z.string().optional(),
+    version: z.string().optional(),
+    description: z.string().optional(),
+    servers: z.array(z.object({ url: z.string(), description: z.string().optional() })).optional(),
+});
+
+const bodySchema: z.ZodType<BodyLimits> = z.object({
+    maxBytes: positiveInt.optional(),
+    maxMultipartBytes: positiveInt.optional(),
+    maxFileBytes: positiveInt.optional(),
+});
+
+const authSchema: z.ZodType<TokenConfig> = z.object({
+    accessTokenTtl: positiveInt.optional(),
+    refreshTokenTtl: positiveInt.optional(),
+    keys: z.record(z.string(), z.string().min(1)).optional(),
+    activeKid: z.string().optional(),
+    store: z.enum(['cache', 'pocketbase']).optional(),
+    collection: z.string().optional(),
+});
+
+const tenantsSchema: z.ZodType<TenantsConfig> = z.object({
+    refreshSeconds: positiveInt.optional(),
+    allowed: z.array(z.string()).optional(),
+    overrides: z.record(z.string(), z.object({
+        DatabaseUrl: z.url().optional(),
+        ADMIN_EMAIL: z.string().optional(),
+        ADMIN_PASSWORD: z.string().optional(),
+        Clover_Secret: z.string().optional(),
+    })).optional(),
+});
+
+const rateLimitRuleSchema: z.ZodType<RateLimitRule> = z.object({
+    algorithm: z.enum(['sliding-window', 'token-bucket']).optional(),
+    limit: positiveInt,
+    windowSeconds: z.number().positive(),
+    key: z.union([
+        z.enum(['ip', 'principal', 'tenant']),
+        z.custom<(ctx: any) => string | undefined | null>((value) => typeof value === 'function', 'must be "ip", "principal", "tenant" or a function'),
+    ]).optional(),
+    name: z.string().optional(),
+});
+
+const rateLimitSchema: z.ZodType<RateLimitConfig> = z.union([rateLimitRuleSchema, z.array(rateLimitRuleSchema)]);
+
+const loggingSchema: z.ZodType<LoggingConfig> = z.object({
+    format: z.enum(['json', 'pretty']).optional(),
+    redact: z.array(z.string()).optional(),
+    accessLog: z.boolean().optional(),
+});
+
+const corsSchema: z.ZodType<CorsConfig> = z.object({
+    origin: z.union([z.string(), z.array(z.string())]).optional(),
+    credentials: z.boolean().optional(),
+    exposedHeaders: z.array(z.string()).optional(),
+    allowedHeaders: z.array(z.string()).optional(),
+    methods: z.array(z.string()).optional(),
+    maxAge: sizeLimit.optional(),
+});
+
+const metricsSchema: z.ZodType<MetricsConfig> = z.object({
+    path: routePath.optional(),
+    token: z.string().min(1).optional(),
+});
+
+export const configSchema = z.object({
+    port: z.number().int().min(0).max(65535).default(8080),
+    logLevel: z.enum(['debug', 'info', 'warn', 'error']).default('info'),
+    /** The allowed CORS origin when `cors.origin` is not set. */
+    origin: z.string().default('*'),
+    AI_ENABLED: z.boolean().default(false),
+    Clover_Tenant_ID: z.string().min(1),
+    Clover_Secret: z.string().min(1),
+    Clover_Server_Url: z.string().min(1),
+    NodeId: z.string().optional(),
+    JWT_SECRET: z.string().min(1),
+    ADMIN_EMAIL: z.string().min(1),
+    ADMIN_PASSWORD: z.string().min(1),
+    DatabaseUrl: z.url(),
+    cache: cacheSchema.optional(),
+    cacheSync: cacheSyncSchema.optional(),
+    /** Collections whose PocketBase realtime events invalidate the cache. */
+    realtime: z.object({ collections: z.array(z.string()) }).optional(),
+    /** Serves an OpenAPI 3.1 document generated from routes/ and schemas/. */
+    openapi: openApiSchema.optional(),
+    /** Request body size limits, larger bodies are answered with 413. */
+    body: bodySchema.optional(),
+    /** Access/refresh token lifetimes, signing keys and where token state is kept. */
+    auth: authSchema.optional(),
+    /** Serving more than the primary tenant: refresh interval, allow-list and per-tenant overrides. */
+    tenants: tenantsSchema.optional(),
+    /** Rate limits every request is counted against, routes can add their own with a `rateLimit` export. */
+    rateLimit: rateLimitSchema.optional(),
+    /** Trust X-Forwarded-For for the client IP, only enable it behind a proxy that sets it. */
+    trustProxy: z.boolean().optional(),
+    /** Log format, extra redacted fields and the per-request access log, the level is `logLevel`. */
+    logging: loggingSchema.optional(),
+    /** Serves Prometheus metrics for routes, the cache, PocketBase and Clover. */
+    metrics: metricsSchema.optional(),
+    /** Allowed origins, credentials and exposed headers, routes can override them with a `cors` export. */
+    cors: corsSchema.optional(),
+}).superRefine((config, ctx) => {
+    // Credentialed responses echo the request's origin, a wildcard would hand every site the user's session.
+    const origin = config.cors?.origin ?? config.origin;
+    if (config.cors?.credentials && [origin].flat().includes('*')) {
+        ctx.addIssue({
+            code: 'custom',
+            path: ['cors', 'origin'],
+            message: 'cors.credentials needs an explicit origin or list of origins, "*" is not allowed with it',
+        });
+    }
+});
+
+export type AppConfig = z.output<typeof configSchema>;
+
+/** Thrown when the configuration cannot be read or does not validate, the message lists every problem. */
+export class ConfigError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ConfigError';
+    }
+}
+
+export type LoadConfigOptions = {
+    /** Directory holding hapta.config.json, defaults to the working directory. */
+    cwd?: string;
+    /** Where HAPTA_* overrides are read from, defaults to process.env. */
+    env?: Record<string, string | undefined>;
+    /** Loads hapta.config.<profile>.json on top, defaults to HAPTA_PROFILE, then NODE_ENV. */
+    profile?: string;
+};
+
+const ENV_PREFIX = 'HAPTA_';
+
+type Def = { type: string; innerType?: z.ZodType; out?: z.ZodType; shape?: Record<string, z.ZodType> };
+
+/** Looks through optional/default/nullable/pipe wrappers to the schema that decides the value's type. */
+function unwrap(schema: z.ZodType): z.ZodType {
+    const def = (schema as unknown as { def: Def }).def;
+    if (def.innerType) return unwrap(def.innerType);
+    if (def.type === 'pipe' && def.out) return unwrap(def.out);
+    return schema;
+}
+
+function shapeOf(schema: z.ZodType): Record<string, z.ZodType> | undefined {
+    return (unwrap(schema) as unknown as { def: Def }).def.shape;
+}
+
+const normalize = (name: string) => name.replace(/_/g, '').toLowerCase();
+
+/** The env spelling of a config path, e.g. ["cache", "store"] -> HAPTA_CACHE__STORE. */
+export function envNameFor(configPath: PropertyKey[]): string {
+    return ENV_PREFIX + configPath.map((segment) => String(segment).toUpperCase()).join('__');
+}
+
+/**
+ * Turns HAPTA_* variables into a partial config. Names match keys ignoring case
+ * and underscores (HAPTA_CLOVER_SECRET -> Clover_Secret), `__` steps into a
+ * section (HAPTA_CACHE__STORE -> cache.store). String settings take the value
+ * as is, everything else is parsed as JSON first (numbers, booleans, whole sections).
+ */
+function envOverrides(env: Record<string, string | undefined>): Record<string, any> {
+    const overrides: Record<string, any> = {};
+    for (const [name, raw] of Object.entries(env)) {
+        if (!name.startsWith(ENV_PREFIX) || raw === undefined || name === `${ENV_PREFIX}PROFILE`) continue;
+
+        let schema: z.ZodType = configSchema;
+        let target = overrides;
+        const segments = name.slice(ENV_PREFIX.length).split('__');
+        for (const [index, segment] of segments.entries()) {
+            const shape = shapeOf(schema);
+            const key = shape && Object.keys(shape).find((candidate) => normalize(candidate) === normalize(segment));
+            if (!key) {
+                logger.warn(`Ignoring ${name}, it does not match a config setting`);
+                break;
+            }
+            schema = shape[key];
+            if (index < segments.length - 1) {
+                target = target[key] ??= {};
+                continue;
+            }
+            const leaf = (unwrap(schema) as unknown as { def: Def }).def.type;
+            if (leaf === 'string' || leaf === 'enum') {
+                target[key] = raw;
+            } else {
+                try {
+                    target[key] = JSON.parse(raw);
+                } catch {
+                    target[key] = raw;
+                }
+            }
         }
+    }
+    return overrides;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Merges `override` into `base` section by section, arrays and other values are replaced. */
+function deepMerge(base: Record<string, any>, override: Record<string, any>): Record<string, any> {
+    const merged = { ...base };
+    for (const [key, value] of Object.entries(override)) {
+        merged[key] = isPlainObject(value) && isPlainObject(merged[key]) ? deepMerge(merged[key], value) : value;
+    }
+    return merged;
+}
+
+function readConfigFile(file: string): Record<string, any> {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(fs.readFileSync(file, 'utf-8'));
     } catch (error) {
-        console.error('Error reading or parsing config file:', error);
-        // Fallback to defaults if the file is malformed
-        return defaultConfig;
+        throw new ConfigError(`Could not read ${file}: ${(error as Error).message}`);
+    }
+    if (!isPlainObject(parsed)) throw new ConfigError(`${file} must contain a JSON object`);
+    return parsed;
+}
+
+/**
+ * Reads hapta.config.json, then hapta.config.<profile>.json, then HAPTA_*
+ * variables, each one overriding the last, and validates the result.
+ */
+export function loadConfig(options: LoadConfigOptions = {}): AppConfig {
+    const cwd = options.cwd ?? process.cwd();
+    const env = options.env ?? process.env;
+    const explicitProfile = options.profile ?? env.HAPTA_PROFILE;
+    const profile = explicitProfile ?? env.NODE_ENV;
+    const sources: string[] = [];
+    let raw: Record<string, any> = {};
+
+    const baseFile = path.join(cwd, 'hapta.config.json');
+    if (fs.existsSync(baseFile)) {
+        raw = readConfigFile(baseFile);
+        sources.push(baseFile);
+    }
+
+    if (profile) {
+        const profileFile = path.join(cwd, `hapta.config.${profile}.json`);
+        if (fs.existsSync(profileFile)) {
+            raw = deepMerge(raw, readConfigFile(profileFile));
+            sources.push(profileFile);
+        } else if (explicitProfile) {
+            // A profile asked for by name has to exist, one picked up from NODE_ENV is optional.
+            throw new ConfigError(`Profile "${profile}" was requested but ${profileFile} does not exist`);
+        }
     }
 
-    // 2. If no file is found, return the default configuration
-    console.log('No hapta.config.json found. Using default settings.');
-    return defaultConfig;
+    const fromEnv = envOverrides(env);
+    if (Object.keys(fromEnv).length > 0) {
+        raw = deepMerge(raw, fromEnv);
+        sources.push(`${ENV_PREFIX}* environment variables`);
+    }
+
+    const unknown = Object.keys(raw).filter((key) => !(key in configSchema.shape));
+    if (unknown.length > 0) logger.warn(`Ignoring unknown config keys: ${unknown.join(', ')}`);
+
+    const result = configSchema.safeParse(raw);
+    if (!result.success) {
+        const problems = result.error.issues.map((issue) => {
+            const setting = issue.path.join('.') || '(root)';
+            return `  - ${setting}: ${issue.message} (set it in hapta.config.json or ${envNameFor(issue.path)})`;
+        });
+        const from = sources.length > 0 ? sources.join(', ') : 'no hapta.config.json and no HAPTA_* variables';
+        throw new ConfigError(`Invalid configuration (from ${from}):\n${problems.join('\n')}`);
+    }
+
+    logger.info('Configuration loaded', { sources, ...(profile && { profile }) });
+    return result.data;
 }
 
-// Load the config once and export it for the rest of the app to use
-export const config = findAndLoadConfig();
\ No newline at end of file
+let loaded: AppConfig | undefined;
+const current = () => (loaded ??= loadConfig());
+
+/**
+ * The working directory's configuration, typed from `configSchema`. It is loaded
+ * on first use, so importing this module (for the schema, say) reads no files.
+ */
+export const config: AppConfig = new Proxy({} as AppConfig, {
+    get: (_, key) => Reflect.get(current(), key),
+    has: (_, key) => key in current(),
+    ownKeys: () => Reflect.ownKeys(current()),
+    getOwnPropertyDescriptor: (_, key) => Reflect.getOwnPropertyDescriptor(current(), key),
+});
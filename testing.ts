@@ -0,0 +1,2 @@
+// Test helpers live in their own entry point, importing index.ts starts the server.
+export * from "./src/core/Testing";
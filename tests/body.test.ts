@@ -0,0 +1,72 @@
+import { describe, expect, test } from "bun:test";
+import path from "path";
+import { BodyParseError, parseRequestBody } from "../helpers/HTTP/Request/Body";
+import { createTestApp } from "../testing";
+
+function post(body: BodyInit, headers: Record<string, string> = {}) {
+  return new Request("http://hapta.test/upload", { method: "POST", body, headers });
+}
+
+test("parses a real FormData body, fields and files", async () => {
+  const form = new FormData();
+  form.append("title", "Hello");
+  form.append("tags", "a");
+  form.append("tags", "b");
+  form.append("avatar", new File(["png bytes"], "avatar.png", { type: "image/png" }));
+  const req = post(form);
+  // Bun's generated boundary is mixed case, it must reach formData() untouched.
+  expect(req.headers.get("content-type")).toMatch(/boundary=.*[A-Z]/);
+
+  const parsed = await parseRequestBody(req);
+  expect(parsed.body.title).toBe("Hello");
+  expect(parsed.body.tags).toEqual(["a", "b"]);
+  expect(parsed.files.avatar).toHaveLength(1);
+  expect(parsed.files.avatar![0]!.name).toBe("avatar.png");
+  expect(await parsed.files.avatar![0]!.text()).toBe("png bytes");
+});
+
+test("keeps an upper-case multipart boundary as sent", async () => {
+  const boundary = "XyZBoundary42";
+  const body = `--${boundary}\r\nContent-Disposition: form-data; name="name"\r\n\r\nAda\r\n--${boundary}--\r\n`;
+  const parsed = await parseRequestBody(post(body, { "Content-Type": `Multipart/Form-Data; boundary=${boundary}` }));
+  expect(parsed.body).toEqual({ name: "Ada" });
+});
+
+test("parses JSON, urlencoded, text and JSON sent as text/plain", async () => {
+  expect((await parseRequestBody(post('{"a":1}', { "Content-Type": "application/json" }))).json).toEqual({ a: 1 });
+  expect((await parseRequestBody(post("a=1&a=2&b=x", { "Content-Type": "application/x-www-form-urlencoded" }))).body).toEqual({ a: ["1", "2"], b: "x" });
+  expect((await parseRequestBody(post("hello", { "Content-Type": "text/markdown" }))).body).toBe("hello");
+  expect((await parseRequestBody(post('{"a":1}', { "Content-Type": "text/plain" }))).json).toEqual({ a: 1 });
+});
+
+test("answers 400 for malformed JSON and 413 past the limits", async () => {
+  const statusOf = (promise: Promise<unknown>) => promise.then(() => 0, (error: BodyParseError) => error.status);
+  expect(await statusOf(parseRequestBody(post("{nope", { "Content-Type": "application/json" })))).toBe(400);
+  expect(await statusOf(parseRequestBody(post("x".repeat(20), { "Content-Type": "text/plain" }), { maxBytes: 10 }))).toBe(413);
+
+  const form = new FormData();
+  form.append("file", new File(["x".repeat(20)], "big.txt"));
+  expect(await statusOf(parseRequestBody(post(form), { maxFileBytes: 10 }))).toBe(413);
+});
+
+describe("in the app", () => {
+  const root = path.join(import.meta.dir, "fixtures", "app");
+
+  test("route handlers get the parsed body and uploads", async () => {
+    const { request } = await createTestApp({ root });
+    const form = new FormData();
+    form.append("title", "Hello");
+    form.append("avatar", new File(["png"], "avatar.png"));
+    const res = await request("POST", "/echo", { body: form });
+    expect(await res.json()).toEqual({ body: { title: "Hello", avatar: {} }, files: ["avatar"] });
+  });
+
+  test("the body is not read for unknown routes or denied requests", async () => {
+    const { request } = await createTestApp({ root, config: { body: { maxBytes: 10 } } });
+    const oversized = { headers: { "Content-Type": "application/json" }, body: `{"padding":"${"x".repeat(100)}"}` };
+    expect((await request("POST", "/missing", oversized)).status).toBe(404);
+    expect((await request("POST", "/admin", oversized)).status).toBe(401);
+    expect((await request("POST", "/admin", { ...oversized, as: { id: "u1", Roles: ["admin"] } })).status).toBe(413);
+    expect((await request("POST", "/admin", { body: "{nope", headers: { "Content-Type": "application/json" }, as: { id: "u1" } })).status).toBe(403);
+  });
+});
@@ -0,0 +1,111 @@
+import { afterEach, expect, test } from "bun:test";
+import os from "os";
+import path from "path";
+import CacheHandler, { type CacheSyncMessage } from "../src/core/CacheManager";
+import { CacheSync, startCacheSync, type CacheSyncTransport } from "../src/core/CacheSync";
+import { logger } from "../src/core/Logger";
+
+// Flushes are logged as warnings, and this suite causes them on purpose.
+logger.configure({ level: "error" });
+
+/** Hands out what the node sends and lets the test deliver messages to it. */
+class FakeTransport implements CacheSyncTransport {
+  public sent: CacheSyncMessage[] = [];
+  public deliver!: (msg: CacheSyncMessage) => void;
+  public reconnect!: () => void;
+
+  public async start(handlers: { onMessage: (msg: CacheSyncMessage) => void; onReconnect: () => void }) {
+    this.deliver = handlers.onMessage;
+    this.reconnect = handlers.onReconnect;
+  }
+
+  public send(msg: CacheSyncMessage) {
+    this.sent.push(msg);
+  }
+
+  public async stop() {}
+}
+
+const running: { stop(): Promise<void> }[] = [];
+
+afterEach(async () => {
+  await Promise.all(running.splice(0).map((sync) => sync.stop()));
+});
+
+async function syncedNode(options: { heartbeatMs?: number; peerTimeoutMs?: number; recoveryPrefixes?: string[] } = {}) {
+  const cache = new CacheHandler({ nodeId: "local" });
+  const transport = new FakeTransport();
+  const sync = new CacheSync(cache, transport, { heartbeatMs: 60_000, ...options });
+  await sync.start();
+  running.push(sync);
+  return { cache, transport };
+}
+
+test("local changes go out with increasing sequence numbers", async () => {
+  const { cache, transport } = await syncedNode();
+  cache.set("posts:1", 1);
+  cache.delete("posts:1");
+  expect(transport.sent.map(({ action, seq }) => ({ action, seq }))).toEqual([
+    { action: "set", seq: 1 },
+    { action: "delete", seq: 2 },
+  ]);
+});
+
+test("a gap in a peer's sequence flushes the recovery prefixes", async () => {
+  const { cache, transport } = await syncedNode({ recoveryPrefixes: ["posts:"] });
+  cache.set("posts:1", 1);
+  cache.set("users:1", 1);
+
+  transport.deliver({ action: "heartbeat", key: "", source: "peer", seq: 1 });
+  transport.deliver({ action: "set", key: "posts:2", data: 2, source: "peer", seq: 2 });
+  expect(cache.get("posts:1")).toBe(1);
+
+  transport.deliver({ action: "heartbeat", key: "", source: "peer", seq: 5 });
+  expect(cache.get("posts:1")).toBeNull();
+  expect(cache.get("posts:2")).toBeNull();
+  expect(cache.get("users:1")).toBe(1);
+});
+
+test("a silent peer or a reconnect flushes everything", async () => {
+  const { cache, transport } = await syncedNode({ peerTimeoutMs: 10 });
+  cache.set("posts:1", 1);
+  transport.deliver({ action: "heartbeat", key: "", source: "peer", seq: 1 });
+  await Bun.sleep(20);
+  transport.deliver({ action: "heartbeat", key: "", source: "peer", seq: 2 });
+  expect(cache.get("posts:1")).toBeNull();
+
+  cache.set("posts:1", 1);
+  transport.reconnect();
+  expect(cache.get("posts:1")).toBeNull();
+});
+
+test("a restarted peer starting over at 1 is not a gap", async () => {
+  const { cache, transport } = await syncedNode();
+  transport.deliver({ action: "heartbeat", key: "", source: "peer", seq: 7 });
+  cache.set("posts:1", 1);
+  transport.deliver({ action: "heartbeat", key: "", source: "peer", seq: 1 });
+  expect(cache.get("posts:1")).toBe(1);
+});
+
+test("two nodes share writes and invalidations through a hub", async () => {
+  const socket = path.join(os.tmpdir(), `hapta-sync-${process.pid}.sock`);
+  const a = new CacheHandler({ nodeId: "a" });
+  const b = new CacheHandler({ nodeId: "b" });
+  running.push(await startCacheSync(a, { transport: "unix", path: socket, serveHub: true, heartbeatMs: 60_000 }));
+  running.push(await startCacheSync(b, { transport: "unix", path: socket, heartbeatMs: 60_000 }));
+
+  const until = async (check: () => boolean) => {
+    for (let i = 0; i < 100 && !check(); i++) await Bun.sleep(10);
+    expect(check()).toBe(true);
+  };
+  // Both transports connect asynchronously, wait until a write gets through.
+  await until(() => {
+    a.set("ready", true);
+    return b.get("ready") === true;
+  });
+
+  a.set("posts:1", { title: "a" }, 60, ["record:posts:1"]);
+  await until(() => b.get("posts:1") !== null);
+  b.invalidateByTag("record:posts:1");
+  await until(() => a.get("posts:1") === null);
+});
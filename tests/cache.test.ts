@@ -0,0 +1,163 @@
+import { describe, expect, test } from "bun:test";
+import CacheHandler from "../src/core/CacheManager";
+import { NamespacedCacheStore, SqliteCacheStore, type CacheStore } from "../src/core/CacheStore";
+
+describe("CacheHandler eviction", () => {
+  test("lru drops the least recently read entry", () => {
+    const cache = new CacheHandler({ maxEntries: 2 });
+    cache.set("a", 1);
+    cache.set("b", 2);
+    cache.get("a");
+    cache.set("c", 3);
+    expect(cache.keys().sort()).toEqual(["a", "c"]);
+    expect(cache.stats().evictions).toBe(1);
+  });
+
+  test("lfu drops the least read entry, ties going to the least recently used", () => {
+    const cache = new CacheHandler({ maxEntries: 2, evictionPolicy: "lfu" });
+    cache.set("a", 1);
+    cache.set("b", 2);
+    cache.get("a");
+    cache.get("a");
+    cache.get("b");
+    cache.set("c", 3);
+    expect(cache.keys().sort()).toEqual(["a", "c"]);
+
+    cache.set("d", 4);
+    expect(cache.keys().sort()).toEqual(["a", "d"]);
+  });
+
+  test("overwriting a key keeps its read count", () => {
+    const cache = new CacheHandler({ maxEntries: 2, evictionPolicy: "lfu" });
+    cache.set("hot", 1);
+    cache.get("hot");
+    cache.set("hot", 2);
+    cache.set("cold", 3);
+    cache.set("new", 4);
+    expect(cache.keys().sort()).toEqual(["hot", "new"]);
+  });
+
+  test("maxBytes evicts until the total fits, but never the entry just written", () => {
+    const cache = new CacheHandler({ maxBytes: 20 });
+    cache.set("a", "x".repeat(10));
+    cache.set("b", "x".repeat(10));
+    expect(cache.keys()).toEqual(["b"]);
+
+    cache.set("big", "x".repeat(100));
+    expect(cache.keys()).toEqual(["big"]);
+    expect(cache.stats().bytes).toBeGreaterThan(20);
+  });
+});
+
+describe("CacheHandler stats", () => {
+  test("counts hits, misses, expirations and bytes per prefix", async () => {
+    const cache = new CacheHandler();
+    cache.set("posts:1", { title: "a" });
+    cache.set("users:1", { name: "b" }, 0.01);
+    cache.get("posts:1");
+    cache.get("posts:2");
+    await Bun.sleep(20);
+    expect(cache.get("users:1")).toBeNull();
+
+    const stats = cache.stats();
+    expect(stats).toMatchObject({ hits: 1, misses: 2, expirations: 1, entries: 1 });
+    expect(Object.keys(stats.bytesByPrefix)).toEqual(["posts"]);
+    expect(stats.bytes).toBe(stats.bytesByPrefix.posts!);
+  });
+
+  test("large values are compressed and read back whole", () => {
+    const cache = new CacheHandler();
+    const value = { items: Array.from({ length: 200 }, (_, i) => ({ id: i, title: "same title" })) };
+    cache.set("posts:list", value);
+    expect(cache.get("posts:list")).toEqual(value);
+
+    const stats = cache.stats();
+    expect(stats.compressedEntries).toBe(1);
+    expect(stats.compressionRatio).toBeGreaterThan(1);
+  });
+});
+
+describe("CacheHandler sync messages", () => {
+  test("changes are broadcast, applied messages are not broadcast again", () => {
+    const sent: any[] = [];
+    const a = new CacheHandler({ nodeId: "a" });
+    const b = new CacheHandler({ nodeId: "b" });
+    a.setBroadcastCallback((msg) => sent.push(msg));
+    b.setBroadcastCallback(() => {
+      throw new Error("applied messages must not be broadcast");
+    });
+
+    a.set("posts:1", { title: "a" }, 60, ["record:posts:1"]);
+    a.invalidateByTag("record:posts:1");
+    for (const msg of sent) b.applySyncMessage(msg);
+    expect(sent.map((msg) => msg.action)).toEqual(["set", "invalidateTag"]);
+    expect(b.get("posts:1")).toBeNull();
+
+    b.applySyncMessage(sent[0]);
+    expect(b.get("posts:1")).toEqual({ title: "a" });
+    a.applySyncMessage({ ...sent[0], key: "echo" });
+    expect(a.get("echo")).toBeNull();
+  });
+
+  test("entries that expired on the sender are not applied", () => {
+    const b = new CacheHandler({ nodeId: "b" });
+    b.applySyncMessage({ action: "set", key: "old", data: 1, expiresAt: Date.now() - 1, source: "a" });
+    expect(b.get("old")).toBeNull();
+  });
+});
+
+const stores: [string, () => CacheStore][] = [
+  ["memory", () => new CacheHandler()],
+  ["sqlite", () => new SqliteCacheStore({ path: ":memory:" })],
+];
+
+describe.each(stores)("%s store", (_, createStore) => {
+  test("tags find every entry that holds a record", async () => {
+    const store = createStore();
+    await store.set("posts:1", { id: "1" }, 0, ["record:posts:1"]);
+    await store.set("posts:list:1", [{ id: "1" }, { id: "2" }], 0, ["record:posts:1", "record:posts:2", "list:posts"]);
+    await store.set("posts:list:2", [{ id: "3" }], 0, ["record:posts:3", "list:posts"]);
+
+    await store.invalidateByTag("record:posts:1");
+    expect((await store.keys("posts:")).sort()).toEqual(["posts:list:2"]);
+
+    await store.invalidateByTag("list:posts");
+    expect(await store.keys()).toEqual([]);
+  });
+
+  test("prefixes, deletes and expiry", async () => {
+    const store = createStore();
+    await store.set("posts:1", 1);
+    await store.set("posts:2", 2);
+    await store.set("users:1", 3, 0.01);
+    await store.invalidateByPrefix("posts:");
+    expect(await store.get("posts:1")).toBeNull();
+    await Bun.sleep(20);
+    expect(await store.get("users:1")).toBeNull();
+
+    await store.set("users:2", { name: "b" });
+    expect(await store.delete("users:2")).toBe(true);
+    expect(await store.delete("users:2")).toBe(false);
+  });
+
+  test("a namespaced view keeps its keys and tags to itself", async () => {
+    const store = createStore();
+    const one = new NamespacedCacheStore(store, "tenant:one:");
+    const two = new NamespacedCacheStore(store, "tenant:two:");
+    await one.set("posts:1", "one", 0, ["record:posts:1"]);
+    await two.set("posts:1", "two", 0, ["record:posts:1"]);
+
+    await one.invalidateByTag("record:posts:1");
+    expect(await one.get("posts:1")).toBeNull();
+    expect(await two.get("posts:1")).toBe("two");
+    expect(await two.keys()).toEqual(["posts:1"]);
+  });
+});
+
+test("the sqlite store trims itself to maxEntries", () => {
+  const store = new SqliteCacheStore({ path: ":memory:", maxEntries: 2 });
+  store.set("a", 1);
+  store.set("b", 2);
+  store.set("c", 3);
+  expect(store.keys()).toHaveLength(2);
+});
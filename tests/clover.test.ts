@@ -0,0 +1,82 @@
+import { describe, expect, test } from "bun:test";
+import path from "path";
+import { createTestApp, FakeClover } from "../testing";
+
+const root = path.join(import.meta.dir, "fixtures", "app");
+
+function twoTenants() {
+  return new FakeClover({
+    tenants: [
+      { id: "test-tenant", Tenant_Roles: [] },
+      { id: "acme", Tenant_Roles: [] },
+    ],
+  });
+}
+
+test("a refresh token is refused by another tenant and stays usable at its own", async () => {
+  const { app, request } = await createTestApp({ root, clover: twoTenants() });
+  const { refreshToken } = await app.tokens.issue({ id: "u1", clover_assigned_id: "acme", Roles: [], Group: "" });
+
+  const refused = await request("POST", "/auth/refresh", { body: { refreshToken } });
+  expect(refused.status).toBe(401);
+  expect((await refused.json()).error.code).toBe("tenant_mismatch");
+
+  const rotated = await request("POST", "/auth/refresh", { body: { refreshToken }, headers: { tenantid: "acme" } });
+  expect(rotated.status).toBe(200);
+  expect((await rotated.json()).clover_assigned_id).toBe("acme");
+});
+
+describe("login flows", async () => {
+  const clover = new FakeClover({
+    tenants: [{ id: "test-tenant", Tenant_Roles: [{ name: "editor", security_level: 2 }] }],
+    users: [
+      { id: "u1", email: "ann@example.com", username: "ann", password: "secret123", Roles: ["editor"] },
+      { id: "u2", email: "bob@example.com", username: "bob", password: "secret456", mfaCode: "999000" },
+    ],
+  });
+  const { app } = await createTestApp({ root, clover });
+  const client = (await app.tenants.resolve()).clover;
+
+  test("a password login signs a token that Verify accepts", async () => {
+    const principal = await client.Authenticate({ type: "passwordAuth", emailOrUsername: "ann", password: "secret123" });
+    expect(principal).toMatchObject({ isAuthenticated: true, id: "u1", highest_clearance: 2, clover_assigned_id: "test-tenant" });
+    if (!principal.isAuthenticated) return;
+    expect(await client.Verify(principal.token)).toMatchObject({ isAuthenticated: true, id: "u1", token: principal.token });
+  });
+
+  test("failures resolve to a principal with a typed error", async () => {
+    const wrong = await client.Authenticate({ type: "passwordAuth", emailOrUsername: "ann", password: "nope" });
+    expect(wrong).toMatchObject({ isAuthenticated: false, error: { code: "invalid_credentials" } });
+
+    const calls = clover.calls.length;
+    const missing = await client.Authenticate({ type: "passwordAuth", emailOrUsername: "ann" } as any);
+    expect(missing).toMatchObject({ isAuthenticated: false, error: { code: "invalid_request" } });
+    expect(clover.calls.length).toBe(calls);
+  });
+
+  test("MFA logins finish with the challenged code", async () => {
+    const first = await client.Authenticate({ type: "passwordAuth", emailOrUsername: "bob", password: "secret456" });
+    expect(first).toMatchObject({ isAuthenticated: false, error: { code: "mfa_required", details: { userId: "u2" } } });
+
+    expect(await client.ChallengeMfa("u2")).toEqual({ sent: true });
+    expect(await client.Authenticate({ type: "mfa", userId: "u2", mfaCode: "000000" })).toMatchObject({ isAuthenticated: false });
+    expect(await client.Authenticate({ type: "mfa", userId: "u2", mfaCode: "999000" })).toMatchObject({ isAuthenticated: true, id: "u2" });
+  });
+
+  test("an OTP code only works after it was requested, and only once", async () => {
+    const otp = () => client.Authenticate({ type: "otp", email: "ann@example.com", otpCode: clover.otpCode });
+    expect(await otp()).toMatchObject({ isAuthenticated: false, error: { code: "invalid_credentials" } });
+    expect(await client.RequestOtp("ann@example.com")).toEqual({ sent: true });
+    expect(await otp()).toMatchObject({ isAuthenticated: true, id: "u1" });
+    expect(await otp()).toMatchObject({ isAuthenticated: false });
+  });
+
+  test("logout revokes the access token and the session's refresh token", async () => {
+    const principal = await client.Authenticate({ type: "passwordAuth", emailOrUsername: "ann", password: "secret123" });
+    if (!principal.isAuthenticated) throw new Error("login failed");
+
+    expect(await client.Logout(principal.token)).toEqual({ loggedOut: true });
+    expect(await client.Verify(principal.token)).toMatchObject({ isAuthenticated: false, error: { code: "token_revoked" } });
+    expect(await client.Refresh(principal.refreshToken!)).toMatchObject({ isAuthenticated: false, error: { code: "token_revoked" } });
+  });
+});
@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, expect, test } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ConfigError, envNameFor, loadConfig } from "../src/core/config";
+import { logger } from "../src/core/Logger";
+
+logger.configure({ level: "warn" });
+
+const required = {
+  Clover_Tenant_ID: "t1",
+  Clover_Secret: "clover-secret",
+  Clover_Server_Url: "https://clover.example",
+  JWT_SECRET: "jwt-secret",
+  ADMIN_EMAIL: "admin@example.com",
+  ADMIN_PASSWORD: "admin-password",
+  DatabaseUrl: "http://127.0.0.1:8090",
+};
+
+let cwd: string;
+const write = (file: string, value: unknown) => fs.writeFileSync(path.join(cwd, file), JSON.stringify(value));
+
+beforeEach(() => {
+  cwd = fs.mkdtempSync(path.join(os.tmpdir(), "hapta-config-"));
+});
+
+afterEach(() => {
+  fs.rmSync(cwd, { recursive: true, force: true });
+});
+
+test("hapta.config.json is validated and filled with defaults", () => {
+  write("hapta.config.json", required);
+  const config = loadConfig({ cwd, env: {} });
+  expect(config.Clover_Secret).toBe("clover-secret");
+  expect(config.port).toBe(8080);
+  expect(config.logLevel).toBe("info");
+  expect(config.origin).toBe("*");
+});
+
+test("a profile is merged section by section and HAPTA_* variables win over both", () => {
+  write("hapta.config.json", { ...required, port: 3000, cache: { store: "memory", maxEntries: 10 } });
+  write("hapta.config.production.json", { cache: { maxEntries: 50 } });
+  const config = loadConfig({
+    cwd,
+    env: { HAPTA_PROFILE: "production", HAPTA_PORT: "4000", HAPTA_CLOVER_SECRET: "from-env", HAPTA_CACHE__STORE: "sqlite" },
+  });
+  expect(config.port).toBe(4000);
+  expect(config.Clover_Secret).toBe("from-env");
+  expect(config.cache).toMatchObject({ store: "sqlite", maxEntries: 50 });
+});
+
+test("a profile from NODE_ENV is optional, one named by HAPTA_PROFILE is not", () => {
+  write("hapta.config.json", required);
+  expect(loadConfig({ cwd, env: { NODE_ENV: "staging" } }).port).toBe(8080);
+  expect(() => loadConfig({ cwd, env: { HAPTA_PROFILE: "staging" } })).toThrow(ConfigError);
+});
+
+test("every invalid setting is listed with the variable that sets it", () => {
+  write("hapta.config.json", { ...required, Clover_Secret: undefined, port: "not a port" });
+  try {
+    loadConfig({ cwd, env: {} });
+    throw new Error("expected a ConfigError");
+  } catch (error) {
+    expect(error).toBeInstanceOf(ConfigError);
+    expect((error as Error).message).toContain("Clover_Secret");
+    expect((error as Error).message).toContain("HAPTA_CLOVER_SECRET");
+    expect((error as Error).message).toContain("port");
+  }
+  expect(envNameFor(["cache", "store"])).toBe("HAPTA_CACHE__STORE");
+});
+
+test("config is loaded from the working directory on first use, not on import", async () => {
+  const previous = process.cwd();
+  process.chdir(cwd);
+  try {
+    const { config } = await import("../src/core/config");
+    write("hapta.config.json", { ...required, port: 5000 });
+    expect(config.port).toBe(5000);
+    expect({ ...config }.Clover_Tenant_ID).toBe("t1");
+    expect("DatabaseUrl" in config).toBe(true);
+  } finally {
+    process.chdir(previous);
+  }
+});
@@ -0,0 +1,67 @@
+import { expect, spyOn, test } from "bun:test";
+import path from "path";
+import { createTestApp } from "../testing";
+import * as Metrics from "../src/core/Metrics";
+
+const root = path.join(import.meta.dir, "fixtures", "app");
+const fromApp = { headers: { Origin: "https://app.example.com" } };
+
+test("credentials with a wildcard origin are refused when the config loads", async () => {
+  await expect(createTestApp({ root, config: { cors: { credentials: true } } })).rejects.toThrow(/cors\.credentials/);
+  await expect(createTestApp({ root, config: { cors: { origin: ["https://a.example", "*"], credentials: true } } })).rejects.toThrow(/cors\.credentials/);
+});
+
+test("the wildcard policy answers every origin with *", async () => {
+  const { request } = await createTestApp({ root });
+  const res = await request("GET", "/limited", fromApp);
+  expect(res.headers.get("Access-Control-Allow-Origin")).toBe("*");
+  expect(res.headers.get("Vary")).toBeNull();
+});
+
+test("credentials echo listed origins only", async () => {
+  const { request } = await createTestApp({ root, config: { cors: { origin: ["https://app.example.com"], credentials: true, exposedHeaders: ["X-Request-ID"] } } });
+  const allowed = await request("GET", "/limited", fromApp);
+  expect(allowed.headers.get("Access-Control-Allow-Origin")).toBe("https://app.example.com");
+  expect(allowed.headers.get("Access-Control-Allow-Credentials")).toBe("true");
+  expect(allowed.headers.get("Access-Control-Expose-Headers")).toBe("X-Request-ID");
+  expect(allowed.headers.get("Vary")).toBe("Origin");
+
+  const other = await request("GET", "/limited", { headers: { Origin: "https://evil.example" } });
+  expect(other.headers.get("Access-Control-Allow-Origin")).toBeNull();
+});
+
+test("a route turning credentials on over the wildcard policy allows no origin", async () => {
+  const { request } = await createTestApp({ root });
+  const res = await request("GET", "/credentialed", fromApp);
+  expect(res.status).toBe(200);
+  expect(res.headers.get("Access-Control-Allow-Origin")).toBeNull();
+});
+
+test("preflights are answered before rate limits with the route's methods", async () => {
+  const { request } = await createTestApp({ root, config: { rateLimit: { limit: 1, windowSeconds: 60 } } });
+  const preflight = { headers: { ...fromApp.headers, "Access-Control-Request-Method": "GET", "Access-Control-Request-Headers": "X-Custom" } };
+  for (let i = 0; i < 2; i++) {
+    const res = await request("OPTIONS", "/limited", preflight);
+    expect(res.status).toBe(204);
+    expect(res.headers.get("Access-Control-Allow-Methods")).toContain("GET");
+    expect(res.headers.get("Access-Control-Allow-Headers")).toBe("X-Custom");
+  }
+  expect((await request("OPTIONS", "/missing", preflight)).status).toBe(404);
+});
+
+test("failures ahead of routing still answer with the CORS headers", async () => {
+  const { request } = await createTestApp({ root, config: { metrics: {} } });
+  const failing = spyOn(Metrics, "metricsResponse").mockImplementation(() => {
+    throw new Error("boom");
+  });
+  // The failure is logged as an error, which would only clutter the test output.
+  const quiet = spyOn(console, "error").mockImplementation(() => {});
+  try {
+    const res = await request("GET", "/_hapta/metrics", fromApp);
+    expect(res.status).toBe(500);
+    expect(res.headers.get("Access-Control-Allow-Origin")).toBe("*");
+  } finally {
+    failing.mockRestore();
+    quiet.mockRestore();
+  }
+});
@@ -0,0 +1,97 @@
+import { expect, test } from "bun:test";
+import { DatabaseService } from "../src/core/CrudManager";
+import { CacheHandler } from "../src/core/CacheStore";
+import { dbCallsTotal } from "../src/core/Metrics";
+import { FakePocketBase } from "../testing";
+
+/** A FakePocketBase whose batch endpoint is disabled, so saveChanges() commits one call at a time. */
+function withoutBatchApi() {
+  const pocketbase = new FakePocketBase();
+  pocketbase.client.beforeSend = (url, options) => {
+    const fetch = url.includes("/api/batch")
+      ? async () => Response.json({ status: 403, message: "Batch requests are not allowed." }, { status: 403 })
+      : pocketbase.fetch;
+    return { url, options: { ...options, fetch } };
+  };
+  return pocketbase;
+}
+
+function dbCalls(collection: string, operation: string): number {
+  const line = dbCallsTotal.render().split("\n").find((line) => line.startsWith(`hapta_db_calls_total{collection="${collection}",operation="${operation}"}`));
+  return line ? Number(line.split(" ").at(-1)) : 0;
+}
+
+test("a batch commits through the batch endpoint and swaps scaffolds for real records", async () => {
+  const pocketbase = new FakePocketBase();
+  const db = new DatabaseService(pocketbase.client, new CacheHandler()).beginScope();
+  db.setBatch(true);
+  const post = await db.create("batch_posts", { title: "Hello" });
+  await db.create("batch_comments", { post: post.id, body: "First" });
+
+  const result = await db.saveChanges();
+  expect(result).toMatchObject({ success: true, mode: "batch", rolledBack: false });
+  const [saved] = pocketbase.records("batch_posts");
+  expect(pocketbase.records("batch_comments")[0]!.post).toBe(saved!.id);
+  expect(pocketbase.requests.filter((request) => request.path === "/api/batch")).toHaveLength(1);
+});
+
+test("a failing batch commits nothing and keeps the queue", async () => {
+  const pocketbase = new FakePocketBase();
+  pocketbase.seed("batch_fail", [{ id: "taken", title: "Existing" }]);
+  const db = new DatabaseService(pocketbase.client, new CacheHandler()).beginScope();
+  db.setBatch(true);
+  await db.create("batch_fail", { title: "New" });
+  await db.create("batch_fail", { id: "taken", title: "Duplicate" });
+
+  const result = await db.saveChanges();
+  expect(result.success).toBe(false);
+  expect(result.results.map((op) => op.success)).toEqual([false, false]);
+  expect(pocketbase.records("batch_fail").map((record) => record.title)).toEqual(["Existing"]);
+});
+
+test("without the batch endpoint a failure undoes what was applied and counts every call", async () => {
+  const pocketbase = withoutBatchApi();
+  pocketbase.seed("seq_posts", [{ id: "p1", title: "Before" }, { id: "p2", title: "Gone" }]);
+  const db = new DatabaseService(pocketbase.client, new CacheHandler()).beginScope();
+  const before = { create: dbCalls("seq_posts", "create"), update: dbCalls("seq_posts", "update"), delete: dbCalls("seq_posts", "delete"), get: dbCalls("seq_posts", "get") };
+
+  db.setBatch(true);
+  await db.create("seq_posts", { id: "p3", title: "New" });
+  await db.update("seq_posts", "p1", { title: "After" });
+  await db.delete("seq_posts", "p2");
+  await db.update("seq_posts", "missing", { title: "Fails" });
+  const result = await db.saveChanges();
+
+  expect(result).toMatchObject({ success: false, mode: "sequential", rolledBack: true, rollbackFailures: [] });
+  expect(result.results.map((op) => op.success)).toEqual([false, false, false, false]);
+  expect(result.results.slice(0, 3).map((op) => !op.success && op.error.message)).toEqual(Array(3).fill("Rolled back, another operation in the batch failed"));
+  const titles = Object.fromEntries(pocketbase.records("seq_posts").map((record) => [record.id, record.title]));
+  expect(titles).toEqual({ p1: "Before", p2: "Gone" });
+
+  // Applied: create, get+update, get+delete, get (fails). Undone: create p2, update p1, delete p3.
+  expect(dbCalls("seq_posts", "create") - before.create).toBe(2);
+  expect(dbCalls("seq_posts", "update") - before.update).toBe(2);
+  expect(dbCalls("seq_posts", "delete") - before.delete).toBe(2);
+  expect(dbCalls("seq_posts", "get") - before.get).toBe(3);
+});
+
+test("a sequential rollback restores updates sent as FormData and reports uploads it cannot restore", async () => {
+  const pocketbase = withoutBatchApi();
+  pocketbase.seed("seq_forms", [{ id: "p1", title: "Before" }, { id: "p2", title: "Kept", cover: "old.png" }]);
+  const db = new DatabaseService(pocketbase.client, new CacheHandler()).beginScope();
+
+  const form = new FormData();
+  form.set("title", "After");
+  const upload = new FormData();
+  upload.set("cover", new File(["png"], "new.png"));
+  db.setBatch(true);
+  await db.update("seq_forms", "p1", form);
+  await db.update("seq_forms", "p2", upload);
+  await db.update("seq_forms", "missing", { title: "Fails" });
+  const result = await db.saveChanges();
+
+  expect(result.rolledBack).toBe(true);
+  expect(result.rollbackFailures.map((failure) => failure.index)).toEqual([1]);
+  expect(result.results.map((op) => op.success)).toEqual([false, true, false]);
+  expect(pocketbase.records("seq_forms").find((record) => record.id === "p1")!.title).toBe("Before");
+});
@@ -0,0 +1,199 @@
+import { expect, test } from "bun:test";
+import { DatabaseService, type BaseRecord } from "../src/core/CrudManager";
+import { CacheHandler } from "../src/core/CacheStore";
+import { FakePocketBase } from "../testing";
+import { logger } from "../src/core/Logger";
+
+// Ending a scope with unsaved work warns, and one test does that on purpose.
+logger.configure({ level: "error" });
+
+type Post = BaseRecord & { title: string };
+
+function setup(options: ConstructorParameters<typeof DatabaseService>[2] = {}, cache = new CacheHandler()) {
+  const pocketbase = new FakePocketBase();
+  const db = new DatabaseService(pocketbase.client, cache, options);
+  const reads = (path: string) => pocketbase.requests.filter((request) => request.method === "GET" && request.path.startsWith(path)).length;
+  return { pocketbase, db, cache, reads };
+}
+
+test("concurrent reads of one record share a single fetch, later ones come from the cache", async () => {
+  const { pocketbase, db, reads } = setup();
+  pocketbase.seed("posts", [{ id: "p1", title: "Hello" }]);
+
+  const [a, b] = await Promise.all([db.get<Post>("posts", "p1"), db.beginScope().get<Post>("posts", "p1")]);
+  expect(a?.title).toBe("Hello");
+  expect(b?.title).toBe("Hello");
+  await db.get<Post>("posts", "p1");
+  expect(reads("/api/collections/posts/records/p1")).toBe(1);
+});
+
+test("misses are not cached", async () => {
+  const { pocketbase, db, reads } = setup();
+  expect(await db.get<Post>("posts", "p1")).toBeNull();
+  pocketbase.seed("posts", [{ id: "p1", title: "Late" }]);
+  expect((await db.get<Post>("posts", "p1"))?.title).toBe("Late");
+  expect(reads("/api/collections/posts/records/p1")).toBe(2);
+});
+
+test("a write keeps in-flight reads of its own collection out of the cache, not those of others", async () => {
+  const { pocketbase, db, reads } = setup();
+  pocketbase.seed("posts", [{ id: "p1", title: "Hello" }]);
+  pocketbase.seed("users", [{ id: "u1", name: "Ann" }]);
+  // Reads wait for the gate, so a write can land while they are in flight.
+  let gate: Promise<void> | undefined;
+  pocketbase.client.beforeSend = (url, options) => ({
+    url,
+    options: {
+      ...options,
+      fetch: async (...args: Parameters<typeof fetch>) => {
+        if ((options.method ?? "GET") === "GET") await gate;
+        return pocketbase.fetch(...args);
+      },
+    },
+  });
+  const whileReading = async <T>(read: () => Promise<T>, write: () => Promise<unknown>) => {
+    let release!: () => void;
+    gate = new Promise((resolve) => (release = resolve));
+    const pending = read();
+    await Bun.sleep(1);
+    await write();
+    release();
+    gate = undefined;
+    return pending;
+  };
+  const lists = () => pocketbase.requests.filter((request) => request.method === "GET" && request.path === "/api/collections/posts/records").length;
+
+  await whileReading(() => db.get<Post>("posts", "p1"), () => db.update("users", "u1", { name: "Bea" }));
+  await db.get<Post>("posts", "p1");
+  expect(reads("/api/collections/posts/records/p1")).toBe(1);
+
+  await whileReading(() => db.list<Post>("posts", { page: 1, limit: 10 }), () => db.create("posts", { title: "New" }));
+  await db.list<Post>("posts", { page: 1, limit: 10 });
+  expect(lists()).toBe(2);
+});
+
+test("a write drops the record and the collection's list pages, other collections stay cached", async () => {
+  const { pocketbase, db, reads } = setup();
+  pocketbase.seed("posts", [{ id: "p1", title: "Hello" }]);
+  pocketbase.seed("users", [{ id: "u1", name: "Ann" }]);
+  await db.get<Post>("posts", "p1");
+  await db.list<Post>("posts", { page: 1, limit: 10 });
+  await db.get("users", "u1");
+
+  await db.update("posts", "p1", { title: "Changed" });
+  expect((await db.get<Post>("posts", "p1"))?.title).toBe("Changed");
+  expect((await db.list<Post>("posts", { page: 1, limit: 10 })).items[0]?.title).toBe("Changed");
+  await db.get("users", "u1");
+  expect(reads("/api/collections/posts/records")).toBe(4);
+  expect(reads("/api/collections/users/records")).toBe(1);
+});
+
+test("entries holding a record through expand are dropped when that record changes", async () => {
+  const { pocketbase, db, reads } = setup();
+  pocketbase.seed("posts", [{ id: "p1", title: "Hello" }]);
+  // FakePocketBase ignores expand, so the expanded record is seeded the way PocketBase would answer.
+  pocketbase.seed("comments", [{ id: "c1", post: "p1", expand: { post: { id: "p1", collectionName: "posts", title: "Hello" } } }]);
+  await db.get("comments", "c1", ["post"]);
+
+  await db.update("posts", "p1", { title: "Changed" });
+  await db.get("comments", "c1", ["post"]);
+  expect(reads("/api/collections/comments/records/c1")).toBe(2);
+});
+
+test("stale entries are served during the grace window while one refresh runs", async () => {
+  const cache = new CacheHandler();
+  // Fresh for 10ms only, so the test doesn't have to wait for a real TTL.
+  cache.getDynamicTTL = () => 10;
+  const { pocketbase, db, reads } = setup({ staleWhileRevalidate: { posts: 60 } }, cache);
+  pocketbase.seed("posts", [{ id: "p1", title: "Old" }]);
+  await db.get<Post>("posts", "p1");
+  await pocketbase.client.collection("posts").update("p1", { title: "New" });
+  await Bun.sleep(20);
+
+  const [first, second] = await Promise.all([db.get<Post>("posts", "p1"), db.get<Post>("posts", "p1")]);
+  expect(first?.title).toBe("Old");
+  expect(second?.title).toBe("Old");
+  await Bun.sleep(5);
+  expect((await db.get<Post>("posts", "p1"))?.title).toBe("New");
+  expect(reads("/api/collections/posts/records/p1")).toBe(2);
+});
+
+test("scopes keep their own queues, ending one discards what it never saved", async () => {
+  const { pocketbase, db } = setup();
+  const one = db.beginScope();
+  const two = db.beginScope();
+  one.setBatch(true);
+  await one.create("posts", { title: "Queued" });
+  await two.create("posts", { title: "Direct" });
+
+  await one.endScope();
+  expect(await one.saveChanges()).toMatchObject({ success: true, results: [] });
+  expect(pocketbase.records("posts").map((record) => record.title)).toEqual(["Direct"]);
+});
+
+test("scaffolds show up on cached pages and are swapped for the committed records", async () => {
+  const { pocketbase, db } = setup();
+  pocketbase.seed("posts", [{ id: "p1", title: "Existing" }]);
+  await db.list<Post>("posts", { page: 1, limit: 10 });
+
+  const scope = db.beginScope();
+  scope.setBatch(true);
+  const scaffold = await scope.create("posts", { title: "Optimistic" }, true);
+  const page = await db.list<Post>("posts", { page: 1, limit: 10 });
+  expect(page.items.map((item: any) => item.title)).toEqual(["Optimistic", "Existing"]);
+  expect(page.totalItems).toBe(2);
+
+  expect((await scope.saveChanges()).success).toBe(true);
+  const saved = pocketbase.records("posts").find((record) => record.title === "Optimistic")!;
+  expect(scope.resolveId(scaffold.id)).toBe(saved.id);
+  const after = await db.list<Post>("posts", { page: 1, limit: 10 });
+  expect(after.items.some((item: any) => item.id === scaffold.id)).toBe(false);
+  expect(after.items.some((item: any) => item.id === saved.id)).toBe(true);
+  expect(after.totalItems).toBe(2);
+});
+
+test("after a commit, pages the scaffold was prepended to are read again", async () => {
+  const { pocketbase, db } = setup();
+  pocketbase.seed("posts", [{ id: "p1", title: "Existing" }]);
+  const filtered = { page: 1, limit: 10, filter: 'title = "Existing"' };
+  await db.list<Post>("posts", filtered);
+
+  const scope = db.beginScope();
+  scope.setBatch(true);
+  await scope.create("posts", { title: "Optimistic" }, true);
+  expect((await db.list<Post>("posts", filtered)).totalItems).toBe(2);
+
+  expect((await scope.saveChanges()).success).toBe(true);
+  const page = await db.list<Post>("posts", filtered);
+  expect(page.items.map((item) => item.title)).toEqual(["Existing"]);
+  expect(page.totalItems).toBe(1);
+});
+
+test("discarded scaffolds leave the cached pages again", async () => {
+  const { pocketbase, db } = setup();
+  pocketbase.seed("posts", [{ id: "p1", title: "Existing" }]);
+  await db.list<Post>("posts", { page: 1, limit: 10 });
+
+  const scope = db.beginScope();
+  scope.setBatch(true);
+  await scope.create("posts", { title: "Optimistic" }, true);
+  await scope.discardChanges();
+  const page = await db.list<Post>("posts", { page: 1, limit: 10 });
+  expect(page.items.map((item: any) => item.title)).toEqual(["Existing"]);
+  expect(page.totalItems).toBe(1);
+  expect(pocketbase.records("posts")).toHaveLength(1);
+});
+
+test("later operations in a batch can reference a scaffold ID", async () => {
+  const { pocketbase, db } = setup();
+  const scope = db.beginScope();
+  scope.setBatch(true);
+  const post = await scope.create("posts", { title: "Draft" });
+  await scope.update("posts", post.id, { title: "Published" });
+  await scope.create("comments", { post: post.id, body: "First" });
+
+  expect((await scope.saveChanges()).success).toBe(true);
+  const [saved] = pocketbase.records("posts");
+  expect(saved!.title).toBe("Published");
+  expect(pocketbase.records("comments")[0]!.post).toBe(saved!.id);
+});
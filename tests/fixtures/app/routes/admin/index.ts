@@ -0,0 +1,5 @@
+import type Context from "../../../../../helpers/HTTP/Request/Context";
+
+export const access = { roles: ["admin"] };
+
+export const POST = (ctx: Context) => ctx.json({ ok: true, body: ctx.input.body });
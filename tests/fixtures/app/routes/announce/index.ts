@@ -0,0 +1,6 @@
+import type Context from "../../../../../helpers/HTTP/Request/Context";
+
+export const POST = (ctx: Context) => {
+  ctx.publish("posts", ctx.input.body);
+  return ctx.json({ published: true });
+};
@@ -0,0 +1 @@
+export { logoutRoute as POST } from "../../../../../../lib";
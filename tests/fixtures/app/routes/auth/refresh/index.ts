@@ -0,0 +1 @@
+export { refreshRoute as POST } from "../../../../../../lib";
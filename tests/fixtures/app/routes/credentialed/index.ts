@@ -0,0 +1,5 @@
+import type Context from "../../../../../helpers/HTTP/Request/Context";
+
+export const cors = { credentials: true };
+
+export const GET = (ctx: Context) => ctx.json({ ok: true });
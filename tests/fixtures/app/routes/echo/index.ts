@@ -0,0 +1,3 @@
+import type Context from "../../../../../helpers/HTTP/Request/Context";
+
+export const POST = (ctx: Context) => ctx.json({ body: ctx.input.body, files: Object.keys(ctx.files) });
@@ -0,0 +1,3 @@
+import type Context from "../../../../../helpers/HTTP/Request/Context";
+
+export const GET = (ctx: Context) => ctx.sse((stream) => stream.subscribe("posts"));
@@ -0,0 +1,5 @@
+import type Context from "../../../../../helpers/HTTP/Request/Context";
+
+export const rateLimit = { limit: 2, windowSeconds: 60 };
+
+export const GET = (ctx: Context) => ctx.json({ ok: true });
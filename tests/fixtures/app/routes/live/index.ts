@@ -0,0 +1,8 @@
+import type { RouteWebSocketHandler } from "../../../../../helpers/HTTP/Request/Context";
+
+export const websocket: RouteWebSocketHandler = {
+  open(ws) {
+    ws.subscribe("posts");
+    ws.send(JSON.stringify({ subscriptions: ws.subscriptions }));
+  },
+};
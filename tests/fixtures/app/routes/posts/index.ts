@@ -0,0 +1,6 @@
+import type Context from "../../../../../helpers/HTTP/Request/Context";
+import type { DatabaseService } from "../../../../../src/core/CrudManager";
+
+export const GET = async (ctx: Context, db: DatabaseService) => ctx.json(await db.list("posts", { page: 1, limit: 50 }));
+
+export const POST = async (ctx: Context, db: DatabaseService) => ctx.json(await db.create("posts", ctx.input.body as any));
@@ -0,0 +1,7 @@
+import { defineMiddleware } from "../../../lib";
+
+export default defineMiddleware(async (ctx, next) => {
+  const res = await next();
+  res.headers.set("X-Global", "1");
+  return res;
+});
@@ -0,0 +1,13 @@
+import type { Context } from "../../../../../../lib";
+
+export const access = {
+  PATCH: { owner: { param: "id", bypassRoles: ["admin"] } },
+  DELETE: { roles: ["admin"], clearance: 3 },
+};
+
+export const GET = (ctx: Context<{ trail: string[] }>) =>
+  ctx.json({ id: ctx.input.params.id, page: ctx.input.query.page, trail: ctx.state.trail });
+
+export const PATCH = (ctx: Context) => ctx.json({ id: ctx.input.params.id, title: ctx.input.body.title });
+
+export const DELETE = (ctx: Context) => ctx.json({ deleted: ctx.input.params.id });
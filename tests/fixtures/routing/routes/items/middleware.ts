@@ -0,0 +1,6 @@
+import { defineMiddleware } from "../../../../../lib";
+
+export default defineMiddleware<{ trail: string[] }>((ctx) => {
+  if (ctx.input.query.block) return false;
+  ctx.state.trail.push("items");
+});
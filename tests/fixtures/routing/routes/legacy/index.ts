@@ -0,0 +1,3 @@
+import type { Context } from "../../../../../lib";
+
+export default (ctx: Context) => ctx.json({ legacy: true });
@@ -0,0 +1,8 @@
+import { defineMiddleware } from "../../../../lib";
+
+export default defineMiddleware<{ trail: string[] }>(async (ctx, next) => {
+  ctx.state.trail = ["routes"];
+  const res = await next();
+  res.headers.set("X-Trail", ctx.state.trail.join(","));
+  return res;
+});
@@ -0,0 +1,11 @@
+import * as z from "zod";
+import { defineRoute } from "../../../../../lib";
+
+export const POST = defineRoute({
+  schema: {
+    body: z.object({ count: z.coerce.number().int(), tags: z.array(z.string()).default([]) }),
+    response: { 200: z.object({ doubled: z.number() }) },
+  },
+  access: { auth: true },
+  handler: (ctx) => ctx.json({ doubled: ctx.input.body.count * 2, tags: ctx.input.body.tags }),
+});
@@ -0,0 +1,5 @@
+import * as z from "zod";
+
+export const PATCH = { body: z.object({ title: z.string().min(1) }) };
+
+export default { query: z.object({ page: z.coerce.number().int().min(1).default(1) }) };
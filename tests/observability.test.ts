@@ -0,0 +1,77 @@
+import { afterEach, expect, spyOn, test } from "bun:test";
+import path from "path";
+import { createTestApp } from "../testing";
+import { logger } from "../src/core/Logger";
+
+const root = path.join(import.meta.dir, "fixtures", "app");
+
+/** Collects the JSON lines the logger writes while `run` is awaited. */
+async function captureLogs(run: () => Promise<unknown>) {
+  const lines: any[] = [];
+  const record = (line: string) => lines.push(JSON.parse(line));
+  const log = spyOn(console, "log").mockImplementation(record);
+  const error = spyOn(console, "error").mockImplementation(record);
+  try {
+    await run();
+  } finally {
+    log.mockRestore();
+    error.mockRestore();
+  }
+  return lines;
+}
+
+afterEach(() => {
+  logger.configure({ level: "warn" });
+});
+
+test("X-Request-ID is kept when it looks like an ID and replaced otherwise", async () => {
+  const { request } = await createTestApp({ root });
+  expect((await request("GET", "/limited", { headers: { "X-Request-ID": "abc-123" } })).headers.get("X-Request-ID")).toBe("abc-123");
+
+  const replaced = (await request("GET", "/limited", { headers: { "X-Request-ID": "no spaces <allowed>" } })).headers.get("X-Request-ID");
+  expect(replaced).toMatch(/^[0-9a-f-]{36}$/);
+  expect((await request("GET", "/nope")).headers.get("X-Request-ID")).toMatch(/^[0-9a-f-]{36}$/);
+});
+
+test("access log lines carry the request ID, status and latency", async () => {
+  const lines = await captureLogs(async () => {
+    const { request } = await createTestApp({ root, config: { logLevel: "info", logging: { accessLog: true } } });
+    await request("GET", "/limited", { headers: { "X-Request-ID": "req-1" } });
+  });
+  const access = lines.find((line) => line.msg === "request");
+  expect(access).toMatchObject({ level: "info", requestId: "req-1", method: "GET", path: "/limited", status: 200 });
+  expect(typeof access.durationMs).toBe("number");
+});
+
+test("secrets and bearer tokens never reach the log", async () => {
+  logger.configure({ level: "info", redact: ["ssn"] });
+  const lines = await captureLogs(async () => {
+    logger.child({ requestId: "r1" }).info("login with Bearer abc.def.ghi", {
+      user: { name: "ann", password: "hunter2", ssn: "123" },
+      headers: { Authorization: "Bearer abc.def.ghi" },
+      error: new Error("failed for Bearer abc.def.ghi"),
+    });
+  });
+  expect(lines).toHaveLength(1);
+  const [line] = lines;
+  expect(line.requestId).toBe("r1");
+  expect(line.msg).toBe("login with Bearer [redacted]");
+  expect(line.user).toEqual({ name: "ann", password: "[redacted]", ssn: "[redacted]" });
+  expect(line.headers.Authorization).toBe("[redacted]");
+  expect(line.error.message).toBe("failed for Bearer [redacted]");
+});
+
+test("the metrics endpoint asks for its token and counts requests by route", async () => {
+  const { request } = await createTestApp({ root, config: { metrics: { token: "scrape-secret" } } });
+  await request("GET", "/limited");
+
+  const refused = await request("GET", "/_hapta/metrics");
+  expect(refused.status).toBe(401);
+
+  const res = await request("GET", "/_hapta/metrics", { headers: { Authorization: "Bearer scrape-secret" } });
+  expect(res.status).toBe(200);
+  expect(res.headers.get("Content-Type")).toContain("text/plain");
+  const text = await res.text();
+  expect(text).toContain('hapta_http_requests_total{route="/limited",method="GET",status="200"}');
+  expect(text).toContain("# TYPE hapta_http_request_duration_seconds histogram");
+});
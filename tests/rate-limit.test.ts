@@ -0,0 +1,86 @@
+import { expect, test } from "bun:test";
+import path from "path";
+import { RateLimiter, type RateLimitRule } from "../src/core/RateLimit";
+import { CacheHandler, MemoryStateStore } from "../src/core/CacheStore";
+import { createTestApp, FakeClover } from "../testing";
+
+const root = path.join(import.meta.dir, "fixtures", "app");
+
+function contextFor(ip: string, userId?: string) {
+  const principal = userId ? { isAuthenticated: true, id: userId } : { isAuthenticated: false };
+  return { metadata: { ipAddress: ip }, principal, tenantId: "test-tenant" } as any;
+}
+
+test("a route limit answers 429 with Retry-After once the window is used up", async () => {
+  const { request } = await createTestApp({ root });
+  const first = await request("GET", "/limited");
+  expect(first.status).toBe(200);
+  expect(first.headers.get("RateLimit-Limit")).toBe("2");
+  expect(first.headers.get("RateLimit-Remaining")).toBe("1");
+  expect(first.headers.get("RateLimit-Policy")).toBe("2;w=60");
+  expect((await request("GET", "/limited")).status).toBe(200);
+
+  const denied = await request("GET", "/limited");
+  expect(denied.status).toBe(429);
+  expect(Number(denied.headers.get("Retry-After"))).toBeGreaterThan(0);
+  expect((await denied.json()).error.code).toBe("rate_limited");
+});
+
+test("global limits count every request, unknown routes included", async () => {
+  const { request } = await createTestApp({ root, config: { rateLimit: { limit: 1, windowSeconds: 60 } } });
+  expect((await request("GET", "/missing")).status).toBe(404);
+  expect((await request("GET", "/limited")).status).toBe(429);
+});
+
+test("requests for unknown tenants are counted before Clover is asked about them", async () => {
+  const clover = new FakeClover();
+  const { request } = await createTestApp({ root, clover, config: { rateLimit: { limit: 2, windowSeconds: 60 } } });
+  const calls = clover.calls.length;
+  const statuses = [];
+  for (let i = 0; i < 5; i++) {
+    statuses.push((await request("GET", "/limited", { headers: { tenantid: `ghost-${i}` } })).status);
+  }
+  expect(statuses).toEqual([404, 404, 429, 429, 429]);
+  expect(clover.calls.length).toBe(calls + 2);
+});
+
+test("counters stay out of the cache and its hit and miss counts", async () => {
+  const { app, request } = await createTestApp({ root, config: { cache: { maxEntries: 1 } } });
+  const cache = app.cache as CacheHandler;
+  const before = cache.stats();
+  for (let i = 0; i < 3; i++) await request("GET", "/limited");
+  await cache.set("posts:get:1", { id: "1" }, 60);
+  await cache.set("posts:get:2", { id: "2" }, 60);
+
+  expect(cache.keys("ratelimit:")).toEqual([]);
+  expect(cache.stats().hits + cache.stats().misses).toBe(before.hits + before.misses);
+  expect((await request("GET", "/limited")).status).toBe(429);
+});
+
+test("principal keys count signed-in users apart and anonymous ones by IP", async () => {
+  const limiter = new RateLimiter(new MemoryStateStore());
+  const rules: RateLimitRule[] = [{ limit: 1, windowSeconds: 60, key: "principal" }];
+  expect((await limiter.check(rules, "r", contextFor("1.1.1.1", "u1")))!.allowed).toBe(true);
+  expect((await limiter.check(rules, "r", contextFor("1.1.1.1", "u2")))!.allowed).toBe(true);
+  expect((await limiter.check(rules, "r", contextFor("1.1.1.1")))!.allowed).toBe(true);
+  expect((await limiter.check(rules, "r", contextFor("1.1.1.1", "u1")))!.allowed).toBe(false);
+  expect((await limiter.check(rules, "r", contextFor("1.1.1.1")))!.allowed).toBe(false);
+  expect((await limiter.check(rules, "r", contextFor("2.2.2.2")))!.allowed).toBe(true);
+});
+
+test("a token bucket allows a burst of limit requests, then refills over the window", async () => {
+  const limiter = new RateLimiter(new MemoryStateStore());
+  const rules: RateLimitRule[] = [{ algorithm: "token-bucket", limit: 3, windowSeconds: 0.3 }];
+  const ctx = contextFor("1.1.1.1");
+  for (let i = 0; i < 3; i++) expect((await limiter.check(rules, "r", ctx))!.allowed).toBe(true);
+  expect((await limiter.check(rules, "r", ctx))!.allowed).toBe(false);
+  await Bun.sleep(120);
+  expect((await limiter.check(rules, "r", ctx))!.allowed).toBe(true);
+});
+
+test("concurrent checks on one node never let more than limit through", async () => {
+  const limiter = new RateLimiter(new MemoryStateStore());
+  const rules: RateLimitRule[] = [{ limit: 5, windowSeconds: 60 }];
+  const results = await Promise.all(Array.from({ length: 20 }, () => limiter.check(rules, "r", contextFor("1.1.1.1"))));
+  expect(results.filter((result) => result!.allowed)).toHaveLength(5);
+});
@@ -0,0 +1,116 @@
+import { afterEach, expect, test } from "bun:test";
+import Pocketbase from "pocketbase";
+import type { Server } from "bun";
+import { RealtimeBridge, type RealtimeEvent } from "../src/core/RealtimeBridge";
+import { DatabaseService, collectionTag, recordTag } from "../src/core/CrudManager";
+import { CacheHandler } from "../src/core/CacheStore";
+
+/**
+ * Serves PocketBase's realtime endpoint: every GET opens a stream that starts
+ * with PB_CONNECT, POSTs are recorded as subscriptions.
+ */
+function stubRealtimeServer() {
+  const streams: ReadableStreamDefaultController<Uint8Array>[] = [];
+  const subscriptions: { clientId: string; subscriptions: string[] }[] = [];
+  const encoder = new TextEncoder();
+  const server: Server<undefined> = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      if (req.method === "POST") {
+        subscriptions.push(await req.json());
+        return new Response(null, { status: 204 });
+      }
+      const clientId = `client-${streams.length + 1}`;
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          streams.push(controller);
+          controller.enqueue(encoder.encode(`event: PB_CONNECT\r\ndata: {"clientId":"${clientId}"}\r\n\r\n`));
+        },
+      });
+      return new Response(body, { headers: { "Content-Type": "text/event-stream" } });
+    },
+  });
+  return {
+    server,
+    pb: new Pocketbase(server.url.origin),
+    streams,
+    subscriptions,
+    /** Sends raw text on the newest stream, split wherever the test likes. */
+    write(text: string) {
+      streams.at(-1)!.enqueue(encoder.encode(text));
+    },
+    /** Ends the newest stream, as a dropped connection would. */
+    drop() {
+      streams.at(-1)!.close();
+    },
+  };
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 3000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error("condition not met in time");
+    await Bun.sleep(10);
+  }
+}
+
+let cleanup: (() => void)[] = [];
+
+afterEach(() => {
+  for (const fn of cleanup.splice(0)) fn();
+});
+
+test("subscribes after PB_CONNECT and forwards events of its collections", async () => {
+  const stub = stubRealtimeServer();
+  const events: RealtimeEvent[] = [];
+  const bridge = new RealtimeBridge(stub.pb, ["posts"], { onEvent: (event) => void events.push(event), onReconnect: () => {} });
+  cleanup.push(() => bridge.stop(), () => stub.server.stop(true));
+  bridge.start();
+
+  await waitFor(() => stub.subscriptions.length === 1);
+  expect(stub.subscriptions[0]).toEqual({ clientId: "client-1", subscriptions: ["posts/*"] });
+
+  stub.write('event: comments/*\ndata: {"action":"create","record":{"id":"c1"}}\n\n');
+  // A message and its \r\n split across chunks.
+  stub.write('event: posts/*\r\ndata: {"action":"update",');
+  stub.write('"record":{"id":"p1"}}\r');
+  stub.write("\n\r\n");
+  await waitFor(() => events.length === 1);
+  expect(events).toEqual([{ collection: "posts", action: "update", record: { id: "p1" } }]);
+});
+
+test("reconnects and subscribes again after the stream drops", async () => {
+  const stub = stubRealtimeServer();
+  let reconnects = 0;
+  const bridge = new RealtimeBridge(stub.pb, ["posts"], { onEvent: () => {}, onReconnect: () => void reconnects++ });
+  cleanup.push(() => bridge.stop(), () => stub.server.stop(true));
+  bridge.start();
+
+  await waitFor(() => stub.subscriptions.length === 1);
+  expect(reconnects).toBe(0);
+  stub.drop();
+  await waitFor(() => reconnects === 1);
+  expect(stub.subscriptions.map((entry) => entry.clientId)).toEqual(["client-1", "client-2"]);
+});
+
+test("DatabaseService invalidates on events and flushes the collections after a reconnect", async () => {
+  const stub = stubRealtimeServer();
+  const cache = new CacheHandler();
+  const db = new DatabaseService(stub.pb, cache);
+  const stop = db.subscribeToRealtime(["posts"]);
+  cleanup.push(stop, () => stub.server.stop(true));
+
+  cache.set("posts:list:1", { items: [] }, 60, [collectionTag("posts")]);
+  cache.set("posts:get:p1", { id: "p1" }, 60, [recordTag("posts", "p1")]);
+  cache.set("users:get:u1", { id: "u1" }, 60);
+  await waitFor(() => stub.subscriptions.length === 1);
+
+  stub.write('event: posts/*\ndata: {"action":"delete","record":{"id":"p1"}}\n\n');
+  await waitFor(() => cache.get("posts:get:p1") === null);
+  expect(cache.get("posts:list:1")).not.toBeNull();
+
+  stub.drop();
+  await waitFor(() => stub.subscriptions.length === 2);
+  await waitFor(() => cache.get("posts:list:1") === null);
+  expect(cache.get("users:get:u1")).toEqual({ id: "u1" });
+});
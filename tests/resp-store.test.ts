@@ -0,0 +1,38 @@
+import { afterEach, expect, test } from "bun:test";
+import net from "net";
+import { RespCacheStore } from "../src/core/CacheStore";
+
+let server: net.Server | undefined;
+
+afterEach(() => {
+  server?.close();
+  server = undefined;
+});
+
+/** A RESP server that answers each command with the next reply from `replies`. */
+async function stubServer(replies: string[]): Promise<{ url: string; connections: () => number }> {
+  let connections = 0;
+  server = net.createServer((socket) => {
+    connections++;
+    socket.on("data", () => socket.write(replies.shift() ?? "-ERR no reply left\r\n"));
+  });
+  await new Promise<void>((resolve) => server!.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as net.AddressInfo;
+  return { url: `redis://127.0.0.1:${port}`, connections: () => connections };
+}
+
+test("reads string, null and error replies", async () => {
+  const { url } = await stubServer(["$12\r\n{\"name\":\"a\"}\r\n", "$-1\r\n", ":1\r\n"]);
+  const store = new RespCacheStore({ url });
+  expect(await store.get("posts:1")).toEqual({ name: "a" });
+  expect(await store.get("posts:2")).toBeNull();
+  expect(await store.delete("posts:1")).toBe(true);
+});
+
+test("an unknown reply type fails the command and the next one reconnects", async () => {
+  const { url, connections } = await stubServer(["?what\r\n", "$3\r\n\"b\"\r\n"]);
+  const store = new RespCacheStore({ url });
+  expect(await store.get("posts:1")).toBeNull();
+  expect(await store.get("posts:2")).toBe("b");
+  expect(connections()).toBe(2);
+});
@@ -0,0 +1,126 @@
+import { expect, test } from "bun:test";
+import path from "path";
+import { createTestApp, FakeClover } from "../testing";
+import { renderDocsPage } from "../src/core/OpenAPI";
+
+const root = path.join(import.meta.dir, "fixtures", "routing");
+const clover = new FakeClover({
+  tenants: [{ id: "test-tenant", Tenant_Roles: [{ name: "admin", security_level: 2 }, { name: "root", security_level: 5 }] }],
+});
+const { request } = await createTestApp({ root, clover, config: { openapi: { docsPath: "/_hapta/docs", title: "Fixture API" } } });
+
+test("middleware stacks from the root down to the route's directory", async () => {
+  const res = await request("GET", "/items/42");
+  expect(res.status).toBe(200);
+  expect(await res.json()).toEqual({ id: "42", page: 1, trail: ["routes", "items"] });
+  expect(res.headers.get("X-Trail")).toBe("routes,items");
+  expect(res.headers.get("X-Global")).toBe("1");
+});
+
+test("middleware returning false answers 403, the global middleware still wraps it", async () => {
+  const res = await request("GET", "/items/42?block=1");
+  expect(res.status).toBe(403);
+  expect(res.headers.get("X-Trail")).toBe("routes");
+  expect(res.headers.get("X-Global")).toBe("1");
+});
+
+test("unknown paths answer 404 through the global middleware", async () => {
+  const res = await request("GET", "/nope");
+  expect(res.status).toBe(404);
+  expect(res.headers.get("X-Global")).toBe("1");
+});
+
+test("methods without a handler answer 405 with Allow, OPTIONS lists them", async () => {
+  const allow = "GET, PATCH, DELETE, HEAD, OPTIONS";
+  const put = await request("PUT", "/items/42");
+  expect(put.status).toBe(405);
+  expect(put.headers.get("Allow")).toBe(allow);
+
+  const options = await request("OPTIONS", "/items/42");
+  expect(options.status).toBe(204);
+  expect(options.headers.get("Allow")).toBe(allow);
+});
+
+test("HEAD runs the GET handler without a body", async () => {
+  const res = await request("HEAD", "/items/42");
+  expect(res.status).toBe(200);
+  expect(res.headers.get("Content-Type")).toContain("application/json");
+  expect(await res.text()).toBe("");
+});
+
+test("a default export answers every method", async () => {
+  for (const method of ["GET", "PUT", "DELETE"]) {
+    expect(await (await request(method, "/legacy")).json()).toEqual({ legacy: true });
+  }
+  expect((await request("OPTIONS", "/legacy")).headers.get("Allow")).toBe("GET, POST, PUT, PATCH, DELETE, HEAD, OPTIONS");
+});
+
+test("schema issues answer 400 with their location", async () => {
+  const res = await request("GET", "/items/42?page=0");
+  expect(res.status).toBe(400);
+  const body = await res.json();
+  expect(body.success).toBe(false);
+  expect(body.error.issues).toEqual([expect.objectContaining({ location: "query", path: ["page"], code: "too_small" })]);
+});
+
+test("owner rules let the owner and bypass roles through", async () => {
+  const patch = (as?: { id: string; Roles?: string[] }) => request("PATCH", "/items/u1", { body: { title: "new" }, as });
+
+  const anonymous = await patch();
+  expect(anonymous.status).toBe(401);
+  expect(anonymous.headers.get("WWW-Authenticate")).toContain("Bearer");
+  expect((await patch({ id: "u2" })).status).toBe(403);
+  expect(await (await patch({ id: "u1" })).json()).toEqual({ id: "u1", title: "new" });
+  expect((await patch({ id: "u2", Roles: ["admin"] })).status).toBe(200);
+});
+
+test("access rules run before validation", async () => {
+  expect((await request("PATCH", "/items/u1", { body: { title: "" } })).status).toBe(401);
+  expect((await request("PATCH", "/items/u1", { body: { title: "" }, as: { id: "u1" } })).status).toBe(400);
+});
+
+test("role and clearance rules both have to hold", async () => {
+  const admin = await request("DELETE", "/items/42", { as: { id: "u1", Roles: ["admin"] } });
+  expect(admin.status).toBe(403);
+  expect((await admin.json()).error.message).toContain("clearance 3");
+
+  expect((await request("DELETE", "/items/42", { as: { id: "u1", Roles: ["root"] } })).status).toBe(403);
+  expect((await request("DELETE", "/items/42", { as: { id: "u1", Roles: ["admin", "root"] } })).status).toBe(200);
+});
+
+test("defineRoute parses the body with its own schema", async () => {
+  expect((await request("POST", "/typed", { body: { count: "4" } })).status).toBe(401);
+  const res = await request("POST", "/typed", { body: { count: "4" }, as: { id: "u1" } });
+  expect(await res.json()).toEqual({ doubled: 8, tags: [] });
+});
+
+test("the OpenAPI document describes paths, schemas and access", async () => {
+  const doc = await (await request("GET", "/_hapta/openapi.json")).json();
+  expect(doc.info.title).toBe("Fixture API");
+
+  const item = doc.paths["/items/{id}"];
+  expect(Object.keys(item).sort()).toEqual(["delete", "get", "patch"]);
+  expect(item.get.parameters).toEqual(
+    expect.arrayContaining([
+      expect.objectContaining({ name: "id", in: "path", required: true }),
+      expect.objectContaining({ name: "page", in: "query", required: false }),
+    ])
+  );
+  expect(item.patch.requestBody.content["application/json"].schema.required).toEqual(["title"]);
+  expect(item.patch.security).toEqual([{ bearerAuth: [] }]);
+  expect(item.delete.description).toBe("Requires one of the roles admin and clearance >= 3.");
+
+  const typed = doc.paths["/typed"].post;
+  expect(typed.responses["200"].content["application/json"].schema.properties.doubled.type).toBe("number");
+  expect(typed.responses["400"]).toEqual({ $ref: "#/components/responses/ValidationError" });
+  expect(doc.paths["/legacy"]).toEqual({ get: expect.any(Object) });
+
+  const docs = await request("GET", "/_hapta/docs");
+  expect(docs.headers.get("Content-Type")).toBe("text/html");
+});
+
+test("the docs page escapes the configured title", () => {
+  const html = renderDocsPage("/_hapta/openapi.json", `<script>alert("x")</script> & co`);
+  expect(html).toContain("<title>&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt; &amp; co</title>");
+  expect(html).not.toContain("<script>alert");
+});
@@ -0,0 +1,67 @@
+import { expect, test } from "bun:test";
+import path from "path";
+import { createTestApp, FakeClover } from "../testing";
+
+const root = path.join(import.meta.dir, "fixtures", "app");
+const clover = new FakeClover({
+  tenants: [
+    { id: "test-tenant", Tenant_Roles: [{ name: "admin", security_level: 1 }] },
+    { id: "other", Tenant_Roles: [{ name: "admin", security_level: 1 }] },
+    { id: "blocked", Tenant_Roles: [] },
+  ],
+});
+const { request, app, pocketbase } = await createTestApp({ root, clover, config: { tenants: { allowed: ["other", "ghost"] } } });
+
+test("tenants outside `allowed` and tenants Clover does not know are refused", async () => {
+  const blocked = await request("GET", "/posts", { headers: { tenantid: "blocked" } });
+  expect(blocked.status).toBe(403);
+  expect((await blocked.json()).error.code).toBe("tenant_not_allowed");
+
+  const ghost = await request("GET", "/posts", { headers: { tenantid: "ghost" } });
+  expect(ghost.status).toBe(404);
+  expect((await ghost.json()).error.code).toBe("unknown_tenant");
+
+  const calls = clover.calls.length;
+  expect((await request("GET", "/posts", { headers: { tenantid: "ghost" } })).status).toBe(404);
+  expect(clover.calls.length).toBe(calls);
+});
+
+test("tenant IDs that are not plain identifiers never reach Clover", async () => {
+  const calls = clover.calls.length;
+  for (const tenantid of ["x/../../auth/otp?a=", "a b", "x".repeat(65)]) {
+    const res = await request("GET", "/posts", { headers: { tenantid } });
+    expect(res.status).toBe(404);
+    expect((await res.json()).error.code).toBe("unknown_tenant");
+  }
+  expect(clover.calls.length).toBe(calls);
+});
+
+test("other tenants cache under their own namespace", async () => {
+  pocketbase.seed("posts", [{ id: "p1", title: "Hello" }]);
+  expect((await request("GET", "/posts", { headers: { tenantid: "other" } })).status).toBe(200);
+  expect((await request("GET", "/posts")).status).toBe(200);
+
+  const keys = await app.cache.keys();
+  expect(keys.some((key) => key.startsWith("tenant:other:"))).toBe(true);
+  expect(keys.some((key) => !key.startsWith("tenant:"))).toBe(true);
+});
+
+test("a token only counts for the tenant that issued it", async () => {
+  const as = { id: "u1", Roles: ["admin"], tenantId: "test-tenant" };
+  expect((await request("POST", "/admin", { as })).status).toBe(200);
+
+  const elsewhere = await request("POST", "/admin", { as, headers: { tenantid: "other" } });
+  expect(elsewhere.status).toBe(401);
+  expect((await elsewhere.json()).error.reason).toBe("tenant_mismatch");
+});
+
+test("unknown tenant IDs are remembered up to a limit, the oldest dropped first", async () => {
+  const { app } = await createTestApp({ root, clover: new FakeClover() });
+  for (let i = 0; i <= 1000; i++) {
+    await app.tenants.resolve(`ghost-${i}`).catch(() => {});
+  }
+  const unknown: Map<string, number> = (app.tenants as any).unknown;
+  expect(unknown.size).toBe(1000);
+  expect(unknown.has("ghost-0")).toBe(false);
+  expect(unknown.has("ghost-1000")).toBe(true);
+});
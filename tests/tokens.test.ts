@@ -0,0 +1,82 @@
+import { describe, expect, test } from "bun:test";
+import path from "path";
+import jwt from "jsonwebtoken";
+import { CloverError, PocketBaseTokenStore, StateTokenStore, TokenService, type TokenStore } from "../src/core/Clover";
+import { MemoryStateStore, SqliteStateStore } from "../src/core/CacheStore";
+import { createTestApp, FakePocketBase } from "../testing";
+
+type Claims = { id: string; clover_assigned_id: string };
+const claims: Claims = { id: "u1", clover_assigned_id: "test-tenant" };
+
+function codeOf(result: unknown) {
+  return result instanceof CloverError ? result.code : "ok";
+}
+
+const stores: [string, () => TokenStore][] = [
+  ["state (memory)", () => new StateTokenStore(new MemoryStateStore())],
+  ["state (sqlite)", () => new StateTokenStore(new SqliteStateStore({ path: ":memory:" }))],
+  ["pocketbase", () => new PocketBaseTokenStore(new FakePocketBase().client)],
+];
+
+describe.each(stores)("TokenService with the %s store", (_, createStore) => {
+  test("issues tokens that verify until their session is revoked", async () => {
+    const tokens = new TokenService<Claims>({}, "secret", createStore());
+    const pair = await tokens.issue(claims);
+    const verified = await tokens.verify(pair.token);
+    expect(codeOf(verified)).toBe("ok");
+    await tokens.revokeSession((verified as any).sid);
+    expect(codeOf(await tokens.verify(pair.token))).toBe("token_revoked");
+  });
+
+  test("a refresh token works once, reusing it revokes the session", async () => {
+    const tokens = new TokenService<Claims>({}, "secret", createStore());
+    const first = await tokens.issue(claims);
+    const rotated = await tokens.rotate(first.refreshToken);
+    expect(codeOf(rotated)).toBe("ok");
+    const { pair } = rotated as Exclude<typeof rotated, CloverError>;
+    expect(codeOf(await tokens.verify(pair.token))).toBe("ok");
+
+    expect(codeOf(await tokens.rotate(first.refreshToken))).toBe("refresh_reused");
+    expect(codeOf(await tokens.verify(pair.token))).toBe("token_revoked");
+    expect(codeOf(await tokens.rotate(pair.refreshToken))).toBe("token_revoked");
+  });
+
+  test("of two concurrent refreshes with the same token only one succeeds", async () => {
+    const tokens = new TokenService<Claims>({}, "secret", createStore());
+    const { refreshToken } = await tokens.issue(claims);
+    const results = await Promise.all([tokens.rotate(refreshToken), tokens.rotate(refreshToken)]);
+    expect(results.map(codeOf).sort()).toEqual(["ok", "refresh_reused"]);
+  });
+});
+
+test("tokens are checked with the key their kid names, unknown and inherited kids are refused", async () => {
+  const store = new StateTokenStore(new MemoryStateStore());
+  const before = new TokenService<Claims>({ keys: { old: "old-secret" } }, "unused", store);
+  const after = new TokenService<Claims>({ keys: { new: "new-secret", old: "old-secret" }, activeKid: "new" }, "unused", store);
+  const { token } = await before.issue(claims);
+  expect(codeOf(await after.verify(token))).toBe("ok");
+
+  for (const kid of ["missing", "__proto__", "constructor", "toString"]) {
+    const forged = jwt.sign({ ...claims, jti: "j", sid: "s" }, "anything", { keyid: kid, expiresIn: 60 });
+    expect(codeOf(await after.verify(forged))).toBe("invalid_token");
+  }
+});
+
+test("token state is not evicted with the cache", async () => {
+  const { app, request } = await createTestApp({ root: path.join(import.meta.dir, "fixtures", "app"), config: { cache: { maxEntries: 2 } } });
+  const { refreshToken } = await app.tokens.issue(claims as any);
+  for (let i = 0; i < 10; i++) await app.cache.set(`posts:get:${i}`, { id: i }, 60);
+
+  const res = await request("POST", "/auth/refresh", { body: { refreshToken } });
+  expect(res.status).toBe(200);
+  expect(await app.cache.keys("auth:")).toEqual([]);
+});
+
+test("logout revokes the session of the token", async () => {
+  const { app, request } = await createTestApp({ root: path.join(import.meta.dir, "fixtures", "app") });
+  const { token, refreshToken } = await app.tokens.issue(claims as any);
+  const headers = { Authorization: `Bearer ${token}` };
+  expect((await request("POST", "/auth/logout", { headers })).status).toBe(200);
+  expect((await request("POST", "/auth/logout", { headers })).status).toBe(401);
+  expect((await request("POST", "/auth/refresh", { body: { refreshToken } })).status).toBe(401);
+});
@@ -0,0 +1,100 @@
+import { afterEach, expect, test } from "bun:test";
+import path from "path";
+import type { Server } from "bun";
+import { topics, type TopicMessage } from "../src/core/Topics";
+import { createTestApp, FakeClover } from "../testing";
+
+const root = path.join(import.meta.dir, "fixtures", "app");
+const acme = { tenantid: "acme" };
+
+function twoTenants() {
+  return new FakeClover({
+    tenants: [
+      { id: "test-tenant", Tenant_Roles: [] },
+      { id: "acme", Tenant_Roles: [] },
+    ],
+  });
+}
+
+/** Reads SSE events from `res` until `count` arrived or `ms` passed, comments are skipped. */
+async function readEvents(res: Response, count: number, ms = 300) {
+  const reader = res.body!.getReader();
+  const decoder = new TextDecoder();
+  const events: { event: string; data: any }[] = [];
+  let buffered = "";
+  const deadline = Date.now() + ms;
+  while (events.length < count && Date.now() < deadline) {
+    const chunk = await Promise.race([reader.read(), Bun.sleep(deadline - Date.now()).then(() => null)]);
+    if (!chunk || chunk.done) break;
+    buffered += decoder.decode(chunk.value);
+    let boundary: number;
+    while ((boundary = buffered.indexOf("\n\n")) !== -1) {
+      const block = buffered.slice(0, boundary);
+      buffered = buffered.slice(boundary + 2);
+      const event = /^event: (.*)$/m.exec(block)?.[1];
+      const data = /^data: (.*)$/m.exec(block)?.[1];
+      if (event && data) events.push({ event, data: JSON.parse(data) });
+    }
+  }
+  await reader.cancel();
+  return events;
+}
+
+let server: Server<any> | undefined;
+
+afterEach(() => {
+  server?.stop(true);
+  server = undefined;
+});
+
+test("SSE streams only hear publishes of their own tenant", async () => {
+  const { request } = await createTestApp({ root, clover: twoTenants() });
+  const stream = await request("GET", "/feed");
+  await Bun.sleep(10);
+  await request("POST", "/announce", { body: { from: "acme" }, headers: acme });
+  await request("POST", "/announce", { body: { from: "primary" } });
+
+  expect(await readEvents(stream, 2)).toEqual([{ event: "posts", data: { from: "primary" } }]);
+});
+
+test("DatabaseService changes are published under the tenant prefix, the primary tenant's too", async () => {
+  const { request } = await createTestApp({ root, clover: twoTenants() });
+  const heard: Record<string, TopicMessage[]> = { primary: [], acme: [], bare: [] };
+  const unsubscribe = [
+    topics.subscribe("tenant:test-tenant:posts", (message) => heard.primary!.push(message)),
+    topics.subscribe("tenant:acme:posts", (message) => heard.acme!.push(message)),
+    topics.subscribe("posts", (message) => heard.bare!.push(message)),
+  ];
+  try {
+    await request("POST", "/posts", { body: { title: "Primary" } });
+    await request("POST", "/posts", { body: { title: "Acme" }, headers: acme });
+  } finally {
+    for (const fn of unsubscribe) fn();
+  }
+
+  expect(heard.primary!.map((message) => [message.topic, message.data.record.title])).toEqual([["posts", "Primary"]]);
+  expect(heard.acme!.map((message) => message.data.record.title)).toEqual(["Acme"]);
+  expect(heard.bare).toEqual([]);
+});
+
+test("WebSocket subscriptions are scoped to the socket's tenant", async () => {
+  const { app, request } = await createTestApp({ root, clover: twoTenants() });
+  server = Bun.serve({ ...(await app.createServeConfig()), port: 0 });
+  topics.attach(server);
+
+  const ws = new WebSocket(`ws://127.0.0.1:${server.port}/live`);
+  const messages: any[] = [];
+  ws.onmessage = (event) => messages.push(JSON.parse(String(event.data)));
+  await new Promise((resolve, reject) => {
+    ws.onopen = resolve;
+    ws.onerror = reject;
+  });
+  await Bun.sleep(20);
+
+  await request("POST", "/announce", { body: { from: "acme" }, headers: acme });
+  await request("POST", "/announce", { body: { from: "primary" } });
+  await Bun.sleep(50);
+  ws.close();
+
+  expect(messages).toEqual([{ subscriptions: ["posts"] }, { topic: "posts", data: { from: "primary" } }]);
+});